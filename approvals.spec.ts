@@ -0,0 +1,64 @@
+import { test, expect, describe } from "bun:test"
+import { createApprovals, parseApprovalAnswer } from "./approvals"
+import { readFile } from "fs/promises"
+
+function tempPath() {
+  return "/tmp/test-approvals-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+}
+
+describe("parseApprovalAnswer", () => {
+  test("recognizes replies regardless of case and spacing", () => {
+    expect(parseApprovalAnswer("allow once")).toBe("once")
+    expect(parseApprovalAnswer("  Allow  Session. ")).toBe("session")
+    expect(parseApprovalAnswer("allow for session")).toBe("session")
+    expect(parseApprovalAnswer("ALLOW ALWAYS")).toBe("always")
+    expect(parseApprovalAnswer("deny!")).toBe("deny")
+  })
+
+  test("ignores other messages", () => {
+    expect(parseApprovalAnswer("yes")).toBeNull()
+    expect(parseApprovalAnswer("please allow once and read the file")).toBeNull()
+    expect(parseApprovalAnswer("constructor")).toBeNull()
+  })
+})
+
+describe("createApprovals", () => {
+  test("answers only the paths waiting in the session", async () => {
+    const approvals = await createApprovals(tempPath() + ".json", "/project")
+
+    expect(approvals.decide("s1", "staging.json")).toBeUndefined()
+    expect(approvals.request("s1", "staging.json")).toBe(true)
+    expect(approvals.request("s1", "staging.json")).toBe(false)
+
+    expect(await approvals.answer("s2", "session")).toEqual([])
+    expect(await approvals.answer("s1", "session")).toEqual(["staging.json"])
+    expect(approvals.decide("s1", "staging.json")).toBe("allow")
+    expect(approvals.decide("s2", "staging.json")).toBeUndefined()
+  })
+
+  test("uses up once-approvals and remembers denials", async () => {
+    const approvals = await createApprovals(tempPath() + ".json", "/project")
+
+    approvals.request("s1", "a.json")
+    await approvals.answer("s1", "once")
+    expect(approvals.decide("s1", "a.json")).toBe("allow")
+    expect(approvals.decide("s1", "a.json")).toBeUndefined()
+
+    approvals.request("s1", "a.json")
+    await approvals.answer("s1", "deny")
+    expect(approvals.decide("s1", "a.json")).toBe("deny")
+    expect(approvals.decide("s1", "a.json")).toBe("deny")
+  })
+
+  test("stores allow-always answers per project for later instances", async () => {
+    const file = tempPath() + "/approvals.json"
+    const approvals = await createApprovals(file, "/project")
+
+    approvals.request("s1", "staging.json")
+    await approvals.answer("s1", "always")
+
+    expect(JSON.parse(await readFile(file, "utf8"))).toEqual({ "/project": ["staging.json"] })
+    expect((await createApprovals(file, "/project")).decide("s2", "staging.json")).toBe("allow")
+    expect((await createApprovals(file, "/other")).decide("s2", "staging.json")).toBeUndefined()
+  })
+})
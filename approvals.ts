@@ -0,0 +1,163 @@
+import {mkdir, readFile, writeFile} from "fs/promises"
+import {dirname, join} from "path"
+import {homedir} from "os"
+
+/**
+ * Answer of the user to an approval request
+ * - once: allow the next access to the path
+ * - session: allow every access for the rest of the session
+ * - always: allow every access in every session of the project
+ * - deny: deny every access for the rest of the session
+ */
+export type ApprovalAnswer = "once" | "session" | "always" | "deny"
+
+/** Replies that answer an approval request, compared case-insensitively */
+const REPLIES: Record<string, ApprovalAnswer> = {
+  "allow once": "once",
+  "allow session": "session",
+  "allow for session": "session",
+  "allow always": "always",
+  "deny": "deny"
+}
+
+/**
+ * Approvals of paths behind prompt rules
+ */
+export interface Approvals {
+  /**
+   * Look up the user's answer for a path
+   * @returns allow (using up a once-approval), deny, or undefined if the user has not answered
+   */
+  decide(sessionID: string, path: string): "allow" | "deny" | undefined
+  /**
+   * Queue a path for the user's next answer in the session
+   * @returns false if the path was already waiting
+   */
+  request(sessionID: string, path: string): boolean
+  /**
+   * Apply an answer to every path waiting in the session
+   * @returns Answered paths (none if nothing was waiting)
+   */
+  answer(sessionID: string, answer: ApprovalAnswer): Promise<string[]>
+}
+
+/**
+ * Answers given in one session
+ */
+interface SessionApprovals {
+  pending: Set<string>
+  once: Set<string>
+  allowed: Set<string>
+  denied: Set<string>
+}
+
+/**
+ * Default location of the approvals given with "allow always"
+ * Kept outside the project, so approvals never end up in the repository
+ *
+ * @returns $XDG_DATA_HOME/opencode/ignore-approvals.json, falling back to ~/.local/share/opencode/ignore-approvals.json
+ */
+export function defaultApprovalsFile(): string {
+  return join(process.env.XDG_DATA_HOME || join(homedir(), ".local", "share"), "opencode", "ignore-approvals.json")
+}
+
+/**
+ * Parse a chat reply to an approval request
+ *
+ * @example
+ * parseApprovalAnswer("Allow session") // "session"
+ * parseApprovalAnswer("yes")           // null
+ *
+ * @param text - Text of a user message
+ * @returns Answer, or null if the message is not a reply
+ */
+export function parseApprovalAnswer(text: string): ApprovalAnswer | null {
+  const reply = text.trim().toLowerCase().replace(/\s+/g, " ").replace(/[.!]$/, "")
+  return Object.hasOwn(REPLIES, reply) ? REPLIES[reply]! : null
+}
+
+/**
+ * Read the approvals file
+ * @param file - Absolute path of the approvals file
+ * @returns Approved paths by project root, empty if the file is missing or unreadable
+ */
+async function readApprovalsFile(file: string): Promise<Record<string, string[]>> {
+  try {
+    const data = JSON.parse(await readFile(file, "utf8"))
+    return data && typeof data === "object" && !Array.isArray(data) ? data : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Create the approval state of a project
+ *
+ * Answers are kept per session in memory. "allow always" is also written to
+ * the approvals file, keyed by project root, and read back by every later
+ * plugin instance of the project. Failing to write the file never changes
+ * the answer for the current session.
+ *
+ * @param file - Absolute path of the approvals file
+ * @param projectRoot - Absolute path to project root
+ * @returns Approvals of the project
+ */
+export async function createApprovals(file: string, projectRoot: string): Promise<Approvals> {
+  const stored = (await readApprovalsFile(file))[projectRoot]
+  const always = new Set(Array.isArray(stored) ? stored.filter(path => typeof path === "string") : [])
+  const sessions = new Map<string, SessionApprovals>()
+
+  const session = (sessionID: string): SessionApprovals => {
+    let approvals = sessions.get(sessionID)
+    if (!approvals) {
+      approvals = {pending: new Set(), once: new Set(), allowed: new Set(), denied: new Set()}
+      sessions.set(sessionID, approvals)
+    }
+    return approvals
+  }
+
+  async function persist(paths: string[]): Promise<void> {
+    try {
+      // Re-read first: other projects and OpenCode instances share the file
+      const data = await readApprovalsFile(file)
+      data[projectRoot] = [...new Set([...(data[projectRoot] ?? []), ...paths])]
+      await mkdir(dirname(file), {recursive: true})
+      await writeFile(file, JSON.stringify(data, null, 2) + "\n")
+    } catch {
+      // The approval still holds for this plugin instance
+    }
+  }
+
+  return {
+    decide(sessionID, path) {
+      const approvals = session(sessionID)
+      if (always.has(path) || approvals.allowed.has(path)) return "allow"
+      if (approvals.denied.has(path)) return "deny"
+      return approvals.once.delete(path) ? "allow" : undefined
+    },
+
+    request(sessionID, path) {
+      const {pending} = session(sessionID)
+      if (pending.has(path)) return false
+
+      pending.add(path)
+      return true
+    },
+
+    async answer(sessionID, answer) {
+      const approvals = session(sessionID)
+      const paths = [...approvals.pending]
+      approvals.pending.clear()
+
+      for (const path of paths) {
+        if (answer === "once") approvals.once.add(path)
+        else if (answer === "deny") approvals.denied.add(path)
+        else approvals.allowed.add(path)
+        if (answer === "always") always.add(path)
+      }
+      if (answer === "always" && paths.length > 0) await persist(paths)
+
+      return paths
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { test, expect, describe } from "bun:test"
+import { createAuditLog, type AuditRecord } from "./audit"
+import { readFile } from "fs/promises"
+
+function auditRecord(path: string): AuditRecord {
+  return {
+    timestamp: new Date().toISOString(),
+    projectRoot: "/project",
+    sessionID: "session",
+    callID: "call",
+    tool: "read",
+    path,
+    normalizedPath: path,
+    decision: "denied",
+    reason: "blocked",
+    rule: { file: ".ignore", line: 1, pattern: "*.key" }
+  }
+}
+
+async function readLines(path: string): Promise<string[]> {
+  return (await readFile(path, "utf8")).trim().split("\n")
+}
+
+describe("createAuditLog", () => {
+  test("appends queued records as JSON lines on flush", async () => {
+    const path = "/tmp/test-audit-" + Date.now() + "/logs/audit.jsonl"
+    const log = createAuditLog({ path, maxSize: 1024 * 1024, maxFiles: 2 })
+
+    log.record(auditRecord("a.key"))
+    log.record(auditRecord("b.key"))
+    await log.flush()
+    log.record(auditRecord("c.key"))
+    await log.flush()
+
+    const lines = await readLines(path)
+    expect(lines.map(line => JSON.parse(line).path)).toEqual(["a.key", "b.key", "c.key"])
+  })
+
+  test("rotates by size and keeps maxFiles rotated files", async () => {
+    const path = "/tmp/test-audit-rotate-" + Date.now() + "/audit.jsonl"
+    const lineSize = JSON.stringify(auditRecord("0.key")).length + 1
+    const log = createAuditLog({ path, maxSize: lineSize * 2, maxFiles: 2 })
+
+    for (let i = 0; i < 7; i++) {
+      log.record(auditRecord(`${i}.key`))
+      await log.flush()
+    }
+
+    const paths = async (file: string) => (await readLines(file)).map(line => JSON.parse(line).path)
+    expect(await paths(path)).toEqual(["6.key"])
+    expect(await paths(path + ".1")).toEqual(["4.key", "5.key"])
+    expect(await paths(path + ".2")).toEqual(["2.key", "3.key"])
+    expect(Bun.file(path + ".3").exists()).resolves.toBe(false)
+  })
+
+  test("ignores write failures", async () => {
+    const log = createAuditLog({ path: "/dev/null/audit.jsonl", maxSize: 1024, maxFiles: 1 })
+    log.record(auditRecord("a.key"))
+    expect(log.flush()).resolves.toBeUndefined()
+  })
+})
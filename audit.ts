@@ -0,0 +1,123 @@
+import {appendFile, mkdir, rename, stat} from "fs/promises"
+import {homedir} from "os"
+import {dirname, join} from "path"
+
+/**
+ * One denied, filtered or granted access, written as a single JSON line
+ */
+export interface AuditRecord {
+  /** ISO 8601 time of the access */
+  timestamp: string
+  /** Absolute project root, since one log may be shared by several projects */
+  projectRoot: string
+  sessionID: string
+  callID: string
+  tool: string
+  /** Path as given by the tool (or found in a bash command / tool result) */
+  path: string
+  /** Path the decision was made for (relative to project root, absolute outside it) */
+  normalizedPath: string
+  /** denied: the tool call was rejected; filtered: the path was removed from tool results; granted: a user grant allowed it */
+  decision: "denied" | "filtered" | "granted"
+  /** Why access was (or, for granted, would have been) denied: blocked, read-only, redacted, prompt or outside-root */
+  reason: string
+  /** Rule that caused the decision: ignore file, line and pattern (null for the outside-root policy) */
+  rule: {file: string, line?: number, pattern: string} | null
+  /** Grant that allowed the access (granted records only) */
+  grant?: {id: string, pattern: string}
+}
+
+export interface AuditLogOptions {
+  /** Absolute path of the JSONL file */
+  path: string
+  /** Rotate before the file would grow past this many bytes */
+  maxSize: number
+  /** Rotated files kept next to the log (path.1 is the newest) */
+  maxFiles: number
+}
+
+export interface AuditLog {
+  /** Queue a record; it is written by the next flush */
+  record(record: AuditRecord): void
+  /** Append queued records to the log file */
+  flush(): Promise<void>
+}
+
+/**
+ * Default location of the audit log
+ * Kept outside the project, so the agent can neither read nor rewrite its own record
+ *
+ * @returns $XDG_DATA_HOME/opencode/ignore-audit.jsonl, falling back to ~/.local/share/opencode/ignore-audit.jsonl
+ */
+export function defaultAuditLogFile(): string {
+  return join(process.env.XDG_DATA_HOME || join(homedir(), ".local", "share"), "opencode", "ignore-audit.jsonl")
+}
+
+/**
+ * Get the size of a file
+ * @param path - File path
+ * @returns Size in bytes, 0 if the file does not exist
+ */
+async function fileSize(path: string): Promise<number> {
+  try {
+    return (await stat(path)).size
+  } catch {
+    return 0
+  }
+}
+
+/**
+ * Shift rotated files up by one (log.1 -> log.2 ...) and move the log to log.1
+ * The oldest file beyond maxFiles is overwritten
+ *
+ * @param options - Audit log options
+ */
+async function rotate({path, maxFiles}: AuditLogOptions): Promise<void> {
+  for (let index = maxFiles - 1; index >= 1; index--) {
+    await rename(`${path}.${index}`, `${path}.${index + 1}`).catch(() => {})
+  }
+  await rename(path, `${path}.1`)
+}
+
+/**
+ * Create an append-only JSONL audit log with size-based rotation
+ *
+ * Records are queued synchronously and appended in one write per flush, so
+ * filtering thousands of search results costs a single append. Writes are
+ * serialized, so rotation never races with an append from the same plugin.
+ * Failing to write the log never changes the outcome of a tool call.
+ *
+ * @param options - Log location and rotation limits
+ * @returns AuditLog writing to options.path
+ */
+export function createAuditLog(options: AuditLogOptions): AuditLog {
+  const pending: string[] = []
+  let writing = Promise.resolve()
+
+  async function append(data: string): Promise<void> {
+    try {
+      await mkdir(dirname(options.path), {recursive: true})
+
+      const size = await fileSize(options.path)
+      if (size > 0 && size + Buffer.byteLength(data) > options.maxSize) await rotate(options)
+
+      await appendFile(options.path, data)
+    } catch {
+      // Auditing is best effort: access decisions stand even if the log is unwritable
+    }
+  }
+
+  return {
+    record(record) {
+      pending.push(JSON.stringify(record))
+    },
+
+    flush() {
+      if (pending.length > 0) {
+        const data = pending.splice(0).join("\n") + "\n"
+        writing = writing.then(() => append(data))
+      }
+      return writing
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { test, expect, describe } from "bun:test"
+import { detectIgnoreCase, expandHome, isOutsideRelativePath, pathVariants } from "./canonical"
+import { mkdir } from "fs/promises"
+import { existsSync } from "fs"
+import { homedir } from "os"
+
+describe("pathVariants", () => {
+  test("resolves the path as written first", () => {
+    expect(pathVariants("src//a/../b.ts", "/project")).toEqual(["/project/src/b.ts"])
+    expect(pathVariants("src\\b.ts", "/project")).toEqual(["/project/src/b.ts"])
+    expect(pathVariants("/project/./src/b.ts", "/project")).toEqual(["/project/src/b.ts"])
+  })
+
+  test("adds Windows and Unicode spellings of the same file", () => {
+    expect(pathVariants("config./secrets.json. ", "/project")).toEqual(["/project/config./secrets.json. ", "/project/config/secrets.json"])
+    expect(pathVariants("cafe\u0301.txt", "/project")).toEqual(["/project/cafe\u0301.txt", "/project/caf\u00e9.txt"])
+  })
+
+  test("adds the home directory for a leading ~", () => {
+    expect(pathVariants("~/.ssh/id_rsa", "/project")).toEqual(["/project/~/.ssh/id_rsa", homedir() + "/.ssh/id_rsa"])
+    expect(pathVariants("a/~/b", "/project")).toEqual(["/project/a/~/b"])
+  })
+
+  test("keeps the project root and dot-only segments intact", () => {
+    expect(pathVariants("a.txt.", "/work/project.")).toEqual(["/work/project./a.txt.", "/work/project./a.txt"])
+    expect(pathVariants("...", "/project")).toEqual(["/project/..."])
+  })
+})
+
+describe("isOutsideRelativePath", () => {
+  test("detects paths that leave the base directory", () => {
+    for (const path of ["..", "../a", "..\\a", "/etc/hosts"]) expect(isOutsideRelativePath(path)).toBe(true)
+    for (const path of ["", "a", "..a", "a/../b"]) expect(isOutsideRelativePath(path)).toBe(false)
+  })
+})
+
+describe("detectIgnoreCase", () => {
+  test("compares the directory with its case swapped", async () => {
+    const dir = "/tmp/test-canonical-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+    await mkdir(dir, { recursive: true })
+    expect(detectIgnoreCase(dir)).toBe(existsSync(dir.toUpperCase()))
+  })
+
+  test("falls back to the platform default", () => {
+    const platformDefault = process.platform === "darwin" || process.platform === "win32"
+    expect(detectIgnoreCase("/tmp/test-canonical-missing-" + Date.now())).toBe(platformDefault)
+    expect(detectIgnoreCase("/")).toBe(platformDefault)
+  })
+})
+
+describe("expandHome", () => {
+  test("expands only a leading ~", () => {
+    expect(expandHome("~/.config")).toBe(homedir() + "/.config")
+    expect(expandHome("~")).toBe(homedir())
+    expect(expandHome("a/~/b")).toBe("a/~/b")
+  })
+})
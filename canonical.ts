@@ -0,0 +1,109 @@
+import {isAbsolute, join, relative, resolve} from "path"
+import {homedir} from "os"
+import {statSync} from "fs"
+
+/**
+ * Expand a leading "~" to the user's home directory
+ * @param path - Path that may start with "~/"
+ * @returns Path with home directory expanded
+ */
+export function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/") ? join(homedir(), path.slice(1)) : path
+}
+
+/**
+ * Check if a relative path (from path.relative) leaves its base directory
+ * @param relativePath - Path relative to a base directory
+ * @returns true if path is outside the base directory
+ */
+export function isOutsideRelativePath(relativePath: string): boolean {
+  return relativePath === ".." || relativePath.startsWith("../") || relativePath.startsWith("..\\") || isAbsolute(relativePath)
+}
+
+/**
+ * Swap the case of every letter
+ * @param text - Text to change
+ * @returns Text with lower case letters in upper case and the reverse
+ */
+function swapCase(text: string): string {
+  return [...text].map(char => char === char.toLowerCase() ? char.toUpperCase() : char.toLowerCase()).join("")
+}
+
+/**
+ * Detect whether a directory lives on a case-insensitive filesystem
+ *
+ * The directory is looked up again with the case of its path swapped: on a
+ * case-insensitive filesystem both names lead to the same inode. Paths without
+ * letters, and directories that cannot be read, fall back to the platform's
+ * default (case-insensitive on macOS and Windows).
+ *
+ * @param directory - Absolute path of an existing directory
+ * @returns true if paths differing only in case name the same file
+ */
+export function detectIgnoreCase(directory: string): boolean {
+  const platformDefault = process.platform === "darwin" || process.platform === "win32"
+  const swapped = swapCase(directory)
+  if (swapped === directory) return platformDefault
+
+  try {
+    const original = statSync(directory)
+    const other = statSync(swapped, {throwIfNoEntry: false})
+    return other !== undefined && other.ino === original.ino && other.dev === original.dev
+  } catch {
+    return platformDefault
+  }
+}
+
+/**
+ * Remove the trailing dots and spaces of every segment, as Windows does when opening a file
+ * Segments made only of dots and spaces are kept
+ *
+ * @example
+ * stripTrailingDots("config./secrets.json. ") // "config/secrets.json"
+ *
+ * @param path - Path with forward slashes
+ * @returns Path as Windows would open it
+ */
+function stripTrailingDots(path: string): string {
+  return path.split("/").map(segment => segment.replace(/[. ]+$/, "") || segment).join("/")
+}
+
+/**
+ * List the absolute paths a tool path may refer to
+ *
+ * The first entry is the path as written, resolved against the project root
+ * with backslashes as separators, duplicate slashes and "." and ".." segments
+ * removed. The others are spellings a filesystem or shell may treat as the
+ * same file, each listed only if it differs:
+ * - the home directory a leading "~" stands for in a shell
+ * - the NFC form of decomposed Unicode (as macOS file names are stored)
+ * - the path without trailing dots and spaces in its segments (as Windows opens it)
+ *
+ * A path is denied if any of its forms is, so none of these spellings gets past a rule.
+ *
+ * @example
+ * pathVariants("src\\..\\secrets.json.", "/project")
+ * // ["/project/secrets.json.", "/project/secrets.json"]
+ *
+ * @param targetPath - Path as given by the tool (absolute or relative to the project root)
+ * @param projectRoot - Absolute path to project root
+ * @returns Distinct absolute paths, the path as written first
+ */
+export function pathVariants(targetPath: string, projectRoot: string): string[] {
+  const slashed = targetPath.replace(/\\/g, "/")
+  const written = resolve(projectRoot, slashed)
+  const variants = [written]
+
+  if (slashed === "~" || slashed.startsWith("~/")) variants.push(resolve(expandHome(slashed)))
+
+  for (const path of [...variants]) {
+    const composed = path.normalize("NFC")
+    variants.push(composed)
+
+    // Only segments below the project root are stripped, so its own name stays intact
+    const relativePath = relative(projectRoot, composed)
+    variants.push(isOutsideRelativePath(relativePath) ? stripTrailingDots(composed) : join(projectRoot, stripTrailingDots(relativePath)))
+  }
+
+  return [...new Set(variants)]
+}
@@ -0,0 +1,174 @@
+import { test, expect, describe, beforeAll, afterAll } from "bun:test"
+import { main } from "./cli"
+
+async function run(...args: string[]) {
+  const out: string[] = []
+  const err: string[] = []
+  const code = await main(args, { out: line => out.push(line), err: line => err.push(line) })
+  return { code, out: out.join("\n"), err: err.join("\n") }
+}
+
+describe("CLI", () => {
+  let root: string
+
+  beforeAll(async () => {
+    root = "/tmp/test-cli-" + Date.now()
+    await Bun.write(root + "/.ignore", "*.key\n!public.key\n# @read-only\nvendor/**\n")
+    await Bun.write(root + "/src/app.ts", "")
+    await Bun.write(root + "/certs/server.key", "")
+    await Bun.write(root + "/certs/public.key", "")
+    await Bun.write(root + "/vendor/lib.js", "")
+  })
+
+  describe("check", () => {
+    test("prints the decision and deciding rule", async () => {
+      const { code, out } = await run("check", "--root", root, root + "/certs/server.key", root + "/src/app.ts")
+      expect(code).toBe(1)
+      expect(out).toContain("blocked")
+      expect(out).toContain("(.ignore:1: *.key)")
+      expect(out).toMatch(/allowed\s+\/.*src\/app\.ts$/m)
+    })
+
+    test("exits with 0 when every path is allowed", async () => {
+      const { code, out } = await run("check", "--root", root, root + "/certs/public.key")
+      expect(code).toBe(0)
+      expect(out).toContain("(.ignore:2: !public.key)")
+    })
+
+    test("checks write access with --write", async () => {
+      expect((await run("check", "--root", root, root + "/vendor/lib.js")).code).toBe(0)
+      expect((await run("check", "--root", root, "--write", root + "/vendor/lib.js")).out).toContain("read-only")
+    })
+
+    test("resolves relative paths against --root", async () => {
+      const { code, out } = await run("check", "--root", root, "certs/server.key", "src/")
+      expect(code).toBe(1)
+      expect(out).toMatch(/^blocked\s+certs\/server\.key\s+\(\.ignore:1: \*\.key\)$/m)
+      expect(out).toMatch(/^allowed\s+src\/$/m)
+    })
+
+    test("prints JSON", async () => {
+      const { out } = await run("check", "--json", "--root", root, root + "/certs/server.key")
+      expect(JSON.parse(out)).toEqual([{
+        path: root + "/certs/server.key",
+        decision: "blocked",
+        normalizedPath: "certs/server.key",
+        rule: { file: ".ignore", line: 1, pattern: "*.key", negated: false }
+      }])
+    })
+  })
+
+  describe("ls-blocked and ls-allowed", () => {
+    test("list the files the plugin would hide and show", async () => {
+      const blocked = await run("ls-blocked", "--json", "--root", root, root)
+      expect(blocked.code).toBe(0)
+      expect(JSON.parse(blocked.out).map((report: any) => report.path)).toEqual(["certs/server.key"])
+
+      const allowed = await run("ls-allowed", "--root", root, root)
+      expect(allowed.out.split("\n")).toEqual([".ignore", "certs/public.key", "src/app.ts", "vendor/lib.js"])
+    })
+
+    test("walk only the given directory", async () => {
+      const { out } = await run("ls-allowed", "--root", root, root + "/src")
+      expect(out).toBe("src/app.ts")
+      expect((await run("ls-blocked", "--root", root, "certs")).out).toMatch(/^blocked\s+certs\/server\.key/)
+    })
+  })
+
+  test("uses the rule profile of an agent", async () => {
+    const dir = "/tmp/test-cli-profiles-" + Date.now()
+    await Bun.write(dir + "/.ignore", "*.key\n")
+    await Bun.write(dir + "/.ignore.plan", "# @read-only\n*.key\n")
+    await Bun.write(dir + "/.opencode/ignore.json", JSON.stringify({ profiles: { plan: { ignoreFiles: [".ignore.plan"] } } }))
+
+    expect((await run("check", "--root", dir, dir + "/a.key")).code).toBe(1)
+    expect((await run("check", "--agent", "plan", "--root", dir, dir + "/a.key")).code).toBe(0)
+    expect((await run("check", "--agent", "plan", "--write", "--root", dir, dir + "/a.key")).out).toContain("read-only")
+
+    const unknown = await run("check", "--agent", "build", "--root", dir, dir + "/a.key")
+    expect(unknown.code).toBe(2)
+    expect(unknown.err).toContain("No profile for agent build")
+  })
+
+  describe("grants", () => {
+    const previousDataHome = process.env.XDG_DATA_HOME
+    const dataHome = "/tmp/test-cli-data-" + Date.now()
+
+    beforeAll(() => {
+      process.env.XDG_DATA_HOME = dataHome
+    })
+
+    afterAll(() => {
+      if (previousDataHome === undefined) delete process.env.XDG_DATA_HOME
+      else process.env.XDG_DATA_HOME = previousDataHome
+    })
+
+    test("grant, list and revoke outside the project", async () => {
+      const granted = await run("grant", "--root", root, "--for", "2h", "--json", "certs/server.key")
+      expect(granted.code).toBe(0)
+      const grant = JSON.parse(granted.out)
+      expect(grant).toMatchObject({ pattern: "certs/server.key" })
+
+      await run("grant", "--root", root, "--session", "ses_1", "vendor/")
+      const listed = await run("grants", "--root", root)
+      expect(listed.out.split("\n")).toEqual([
+        expect.stringMatching(/^\w{8}  certs\/server\.key  until /),
+        expect.stringMatching(/^\w{8}  vendor\/  session ses_1$/)
+      ])
+      expect(await Bun.file(dataHome + "/opencode/ignore-grants.json").exists()).toBe(true)
+
+      expect((await run("revoke", "--root", root, grant.id)).out).toStartWith(`Revoked ${grant.id}  certs/server.key`)
+      const missing = await run("revoke", "--root", root, grant.id)
+      expect(missing.code).toBe(1)
+      expect(missing.err).toBe(`No active grant ${grant.id}`)
+    })
+
+    test("needs a limit and a valid duration", async () => {
+      expect((await run("grant", "--root", root, "a.txt")).err).toContain("grant needs --for or --session")
+      expect((await run("grant", "--root", root, "--for", "1w", "a.txt")).err).toContain("Invalid duration: 1w")
+      expect((await run("revoke", "--root", root)).code).toBe(2)
+    })
+  })
+
+  describe("lint", () => {
+    test("reports problems with their line and exits with 1", async () => {
+      const lintRoot = "/tmp/test-cli-lint-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+      await Bun.write(lintRoot + "/.opencode/ignore.json", JSON.stringify({ globalIgnoreFile: false }))
+      await Bun.write(lintRoot + "/.ignore", "/keys/\n!/keys/pub.pem\n")
+      await Bun.write(lintRoot + "/keys/pub.pem", "")
+
+      const { code, out } = await run("lint", "--root", lintRoot)
+      expect(code).toBe(1)
+      expect(out).toBe(".ignore:2: !/keys/pub.pem: cannot re-include anything: its directory keys/ is excluded by line 1 (/keys/)")
+
+      const json = await run("lint", "--json", "--root", lintRoot)
+      expect(JSON.parse(json.out)).toMatchObject([{ code: "ineffective-negation", file: ".ignore", line: 2 }])
+    })
+
+    test("exits with 0 when the ignore files are clean", async () => {
+      const { code, out } = await run("lint", "--root", root)
+      expect(code).toBe(0)
+      expect(out).toBe("")
+    })
+
+    test("takes no arguments", async () => {
+      expect((await run("lint", "--root", root, ".ignore")).err).toContain("lint takes no arguments")
+    })
+  })
+
+  test("exits with 2 on invalid usage", async () => {
+    expect((await run()).code).toBe(2)
+    expect((await run("explain", "x")).err).toContain("Unknown command: explain")
+    expect((await run("check")).code).toBe(2)
+    expect((await run("check", "--bogus", "x")).code).toBe(2)
+  })
+
+  test("exits with 2 on invalid configuration", async () => {
+    const badRoot = "/tmp/test-cli-config-" + Date.now()
+    await Bun.write(badRoot + "/.opencode/ignore.json", JSON.stringify({ outsideRoot: { policy: "never" } }))
+
+    const { code, err } = await run("check", "--root", badRoot, badRoot + "/a.txt")
+    expect(code).toBe(2)
+    expect(err).toContain("outsideRoot.policy")
+  })
+})
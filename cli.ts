@@ -0,0 +1,272 @@
+#!/usr/bin/env bun
+import {parseArgs} from "util"
+import {stat} from "fs/promises"
+import {join, resolve} from "path"
+import {CONFIG_FILE, formatRule, loadConfig, type Operation, type PathCheck, type PluginConfig} from "./engine"
+import {createPolicy, isPermitted, type Policy} from "./policy"
+import {createGrants, defaultGrantsFile, formatGrant, parseDuration} from "./grants"
+import {formatLintWarning, lintIgnoreFiles} from "./lint"
+import {walkTree} from "./tree"
+
+const USAGE = `Usage: opencode-ignore <command> [options]
+
+Commands:
+  check <path...>    Print whether each path is allowed and the deciding rule
+  ls-blocked [dir]   List files under dir (default: project root) the plugin would hide
+  ls-allowed [dir]   List files under dir (default: project root) the plugin would show
+  lint               Report ignore file patterns that cannot work as written
+  grant <pattern>    Allow a path or pattern temporarily (needs --for or --session)
+  grants             List active grants
+  revoke <id>        Revoke a grant
+
+Options:
+  --root <dir>       Project root (default: current directory); relative
+                     paths and directories are resolved against it
+  --write            Check write access (write/edit) instead of read access
+  --agent <name>     Use the rule profile of an agent (e.g. plan)
+  --for <duration>   Grant for a duration: 30m, 2h, 1d
+  --session <id>     Grant for one OpenCode session
+  --json             Print JSON
+  -h, --help         Show this help
+
+Exit codes:
+  0  success; for check, every path is allowed
+  1  check found a denied path, lint found a problem, or revoke found no such grant
+  2  invalid usage or configuration`
+
+/** Commands that manage grants instead of checking paths */
+const GRANT_COMMANDS = ["grant", "grants", "revoke"]
+
+/**
+ * Output streams of the CLI, replaceable in tests
+ */
+interface CliOutput {
+  out(line: string): void
+  err(line: string): void
+}
+
+/**
+ * Decision for one path as printed by the CLI
+ */
+interface PathReport extends PathCheck {
+  /** Path as given on the command line, or relative to project root for listings */
+  path: string
+}
+
+/**
+ * Check paths given on the command line
+ *
+ * @param paths - Paths relative to the project root, or absolute
+ * @param policy - Access policy of the project
+ * @param operation - Access to check
+ * @returns One report per path
+ */
+async function checkPaths(paths: string[], policy: Policy, operation: Operation): Promise<PathReport[]> {
+  const reports: PathReport[] = []
+
+  for (const path of paths) {
+    const absolutePath = resolve(policy.projectRoot, path)
+    const isDirectory = path.endsWith("/") || await stat(absolutePath).then(stats => stats.isDirectory(), () => false)
+    reports.push({path, ...await policy.check(absolutePath, isDirectory ? "directory" : "file", operation)})
+  }
+
+  return reports
+}
+
+/**
+ * Check every file under a directory
+ *
+ * @param directory - Directory to walk (relative to the project root, or absolute)
+ * @param policy - Access policy of the project
+ * @param operation - Access to check
+ * @returns One report per file
+ */
+async function checkTree(directory: string, policy: Policy, operation: Operation): Promise<PathReport[]> {
+  const reports: PathReport[] = []
+
+  for await (const path of walkTree(resolve(policy.projectRoot, directory), policy.projectRoot)) {
+    if (path.endsWith("/")) continue
+    reports.push({path, ...await policy.check(join(policy.projectRoot, path), "file", operation)})
+  }
+
+  return reports
+}
+
+/**
+ * Format a report as one line of text
+ *
+ * @example
+ * // "blocked  certs/server.key  (.ignore:4: *.key)"
+ *
+ * @param report - Path report
+ * @returns Aligned decision, path and rule
+ */
+function formatReport({path, decision, rule}: PathReport): string {
+  const line = `${decision.padEnd(12)} ${path}`
+  return rule ? `${line}  (${formatRule(rule)})` : line
+}
+
+/**
+ * Report mistakes in the ignore files of a project
+ *
+ * @param projectRoot - Absolute project root
+ * @param config - Plugin configuration
+ * @param json - Print JSON instead of one line per warning
+ * @param output - Where to print results
+ * @returns Exit code: 1 if there are warnings
+ */
+async function runLint(projectRoot: string, config: PluginConfig, json: boolean, output: CliOutput): Promise<number> {
+  const warnings = await lintIgnoreFiles(projectRoot, config)
+  if (json) output.out(JSON.stringify(warnings, null, 2))
+  else for (const warning of warnings) output.out(formatLintWarning(warning))
+  return warnings.length > 0 ? 1 : 0
+}
+
+/**
+ * Run a grant command
+ * Grants are stored outside the project and picked up by running plugins on their next check
+ *
+ * @param command - grant, grants or revoke
+ * @param operands - Pattern or grant ID
+ * @param options - Parsed options
+ * @param projectRoot - Absolute project root
+ * @param output - Where to print results and errors
+ * @returns Exit code
+ */
+async function runGrantCommand(
+  command: string,
+  operands: string[],
+  options: {for?: string, session?: string, json: boolean},
+  projectRoot: string,
+  output: CliOutput
+): Promise<number> {
+  const grants = createGrants(defaultGrantsFile(), projectRoot)
+
+  try {
+    if (command === "grants") {
+      const active = await grants.list()
+      if (options.json) output.out(JSON.stringify(active, null, 2))
+      else for (const grant of active) output.out(formatGrant(grant))
+      return 0
+    }
+
+    if (command === "revoke") {
+      const revoked = await grants.revoke(operands[0]!)
+      if (!revoked) {
+        output.err(`No active grant ${operands[0]}`)
+        return 1
+      }
+      output.out(`Revoked ${formatGrant(revoked)}`)
+      return 0
+    }
+
+    const duration = options.for === undefined ? undefined : parseDuration(options.for)
+    if (duration === null) {
+      output.err(`Invalid duration: ${options.for} (use e.g. 30m, 2h, 1d)`)
+      return 2
+    }
+
+    const grant = await grants.add({pattern: operands[0]!, sessionID: options.session, duration})
+    output.out(options.json ? JSON.stringify(grant, null, 2) : `Granted ${formatGrant(grant)}`)
+    return 0
+  } catch (error) {
+    output.err((error as Error).message)
+    return 2
+  }
+}
+
+/**
+ * Run the CLI
+ *
+ * Uses the plugin's own policy (see createPolicy), so results match what
+ * agents see at runtime.
+ *
+ * @param args - Command-line arguments without the executable and script
+ * @param output - Where to print results and errors
+ * @returns Exit code
+ */
+export async function main(args: string[], output: CliOutput = {out: console.log, err: console.error}): Promise<number> {
+  let parsed
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        root: {type: "string"},
+        write: {type: "boolean", default: false},
+        agent: {type: "string"},
+        for: {type: "string"},
+        session: {type: "string"},
+        json: {type: "boolean", default: false},
+        help: {type: "boolean", short: "h", default: false}
+      }
+    })
+  } catch (error) {
+    output.err(`${(error as Error).message}\n\n${USAGE}`)
+    return 2
+  }
+
+  const {values, positionals: [command, ...operands]} = parsed
+  if (values.help) {
+    output.out(USAGE)
+    return 0
+  }
+
+  const usageError = !command ? "Missing command"
+    : ![...GRANT_COMMANDS, "check", "ls-blocked", "ls-allowed", "lint"].includes(command) ? `Unknown command: ${command}`
+    : command === "check" && operands.length === 0 ? "check needs at least one path"
+    : command === "grant" && operands.length !== 1 ? "grant needs one pattern"
+    : command === "grant" && values.for === undefined && values.session === undefined ? "grant needs --for or --session"
+    : command === "grants" && operands.length > 0 ? "grants takes no arguments"
+    : command === "revoke" && operands.length !== 1 ? "revoke needs one grant ID"
+    : command === "lint" && operands.length > 0 ? "lint takes no arguments"
+    : command.startsWith("ls-") && operands.length > 1 ? `${command} takes at most one directory`
+    : null
+  if (usageError) {
+    output.err(`${usageError}\n\n${USAGE}`)
+    return 2
+  }
+
+  const projectRoot = resolve(values.root ?? ".")
+  if (command && GRANT_COMMANDS.includes(command)) return runGrantCommand(command, operands, values, projectRoot, output)
+
+  const operation: Operation = values.write ? "write" : "read"
+
+  let policy: Policy
+  try {
+    const config = await loadConfig(projectRoot)
+    if (command === "lint") return await runLint(projectRoot, config, values.json, output)
+    if (values.agent !== undefined && !Object.hasOwn(config.profiles ?? {}, values.agent)) {
+      throw new Error(`No profile for agent ${values.agent} in ${CONFIG_FILE}`)
+    }
+    policy = await createPolicy(projectRoot, {config, agent: values.agent})
+  } catch (error) {
+    output.err((error as Error).message)
+    return 2
+  }
+
+  let reports: PathReport[]
+  try {
+    reports = command === "check"
+      ? await checkPaths(operands, policy, operation)
+      : (await checkTree(operands[0] ?? projectRoot, policy, operation))
+        .filter(report => isPermitted(report, operation) === (command === "ls-allowed"))
+  } catch (error) {
+    output.err((error as Error).message)
+    return 2
+  }
+
+  if (values.json) {
+    output.out(JSON.stringify(reports, null, 2))
+  } else if (command === "check") {
+    for (const report of reports) output.out(formatReport(report))
+  } else {
+    for (const report of reports) output.out(command === "ls-blocked" ? formatReport(report) : report.path)
+  }
+
+  return command === "check" && !reports.every(report => isPermitted(report, operation)) ? 1 : 0
+}
+
+if (import.meta.main) {
+  process.exit(await main(process.argv.slice(2)))
+}
@@ -0,0 +1,1080 @@
+import ignore from "ignore"
+import {isPathValid} from "ignore"
+import {join, isAbsolute, relative, dirname, basename, resolve} from "path"
+import {homedir} from "os"
+import {stat, realpath, readlink} from "fs/promises"
+import {lstatSync} from "fs"
+import {NATIVE_TOOLS, OUTPUT_FORMATS, parseArgPath, type ToolConfig} from "./tools"
+import {detectIgnoreCase, expandHome, isOutsideRelativePath, pathVariants} from "./canonical"
+import {DENIAL_CODES, MESSAGE_PLACEHOLDERS, unknownPlaceholders, type MessageTemplates} from "./messages"
+
+type Ignore = ReturnType<typeof ignore>
+
+/**
+ * Kind of access a tool needs
+ * read: read, glob, grep, list; write: write, edit
+ */
+export type Operation = "read" | "write"
+
+/**
+ * Class of rules within an ignore file
+ * Operations restrict access; redact marks files whose secret values are masked when read,
+ * prompt marks files the user must approve access to
+ */
+export type RuleClass = Operation | "redact" | "prompt"
+
+/**
+ * Negation rule compiled on its own
+ * The ignore library does not report which negation re-included a path, so each is tested separately
+ */
+interface NegationRule {
+  line: number
+  pattern: string
+  ignoreLib: Ignore
+}
+
+/**
+ * Rules of one ignore file of one rule class
+ * Every rule is marked with its 1-based line number
+ */
+interface CompiledRules {
+  ignoreLib: Ignore
+  negations: NegationRule[]
+}
+
+/**
+ * Compiled rules of one ignore file, split by rule class
+ */
+type IgnoreRules = Record<RuleClass, CompiledRules>
+
+/**
+ * Ignore rules loaded from a single ignore file
+ * Patterns are relative to the directory that holds the file (project root for the global file)
+ */
+interface IgnoreSource {
+  /** Directory of the ignore file relative to project root ("" for root, otherwise with trailing "/") */
+  base: string
+  /** Ignore file as shown to users: relative to project root, absolute outside it */
+  file: string
+  rules: IgnoreRules
+}
+
+/**
+ * Rule that decided whether a path is ignored
+ */
+export interface MatchedRule {
+  /** Ignore file (see IgnoreSource.file), or the config file for outside-root patterns */
+  file: string
+  /** 1-based line in the file, absent for patterns from the config file */
+  line?: number
+  /** Pattern text as written */
+  pattern: string
+  /** Negation ("!pattern") that re-included the path */
+  negated: boolean
+}
+
+/**
+ * Outcome of matching a path against ignore sources
+ */
+interface RuleDecision {
+  blocked: boolean
+  /** Last rule that matched, null if none did */
+  rule: MatchedRule | null
+}
+
+/**
+ * Section markers of ignore files and the rule classes their rules belong to
+ * - # @block: no read, no write (default before any marker)
+ * - # @read-only: readable, never modified
+ * - # @no-read: writable (e.g. scratch areas), never read
+ * - # @redact: readable with secret values masked, never modified
+ * - # @prompt: readable and writable once the user approves
+ */
+const SECTIONS: Record<string, RuleClass[]> = {
+  "block": ["read", "write"],
+  "read-only": ["write"],
+  "no-read": ["read"],
+  "redact": ["write", "redact"],
+  "prompt": ["prompt"]
+}
+
+/**
+ * Line of an ignore file with the rule classes of its section
+ */
+export interface IgnoreLine {
+  /** 1-based line number */
+  line: number
+  /** Line as written, in NFC form */
+  pattern: string
+  classes: RuleClass[]
+}
+
+/**
+ * Split ignore file content into lines, each with the rule classes of its section
+ * Section markers are left out; comments and blank lines are kept like the ignore library expects them
+ *
+ * @param content - Ignore file content
+ * @returns Lines that are not section markers
+ */
+export function ignoreFileLines(content: string): IgnoreLine[] {
+  const lines: IgnoreLine[] = []
+  let classes = SECTIONS.block!
+  
+  // Patterns are matched in NFC form, like the paths they are tested against (see pathVariants)
+  content.normalize("NFC").split(/\r?\n/).forEach((pattern, index) => {
+    const marker = /^#\s*@([a-z-]+)\s*$/.exec(pattern)
+    const section = marker && SECTIONS[marker[1]!]
+    if (section) {
+      classes = section
+      return
+    }
+    
+    lines.push({line: index + 1, pattern, classes})
+  })
+  
+  return lines
+}
+
+/**
+ * Parse ignore file content into per-class rules
+ *
+ * @example
+ * // *.key         -> blocks read and write
+ * // # @read-only
+ * // bun.lock      -> blocks write only
+ * // # @no-read
+ * // scratch/**    -> blocks read only
+ * // # @redact
+ * // *.properties  -> masks secret values on read, blocks write
+ * // # @prompt
+ * // staging.json  -> asks the user before read or write
+ *
+ * @param content - Ignore file content
+ * @param ignorecase - Match patterns regardless of case
+ * @returns Rules of each class
+ */
+function parseIgnoreRules(content: string, ignorecase: boolean): IgnoreRules {
+  const rules: IgnoreRules = {
+    read: {ignoreLib: ignore({ignorecase}), negations: []},
+    write: {ignoreLib: ignore({ignorecase}), negations: []},
+    redact: {ignoreLib: ignore({ignorecase}), negations: []},
+    prompt: {ignoreLib: ignore({ignorecase}), negations: []}
+  }
+  
+  for (const {line, pattern, classes} of ignoreFileLines(content)) {
+    for (const ruleClass of classes) {
+      rules[ruleClass].ignoreLib.add({pattern, mark: String(line)})
+      if (pattern.startsWith("!")) {
+        rules[ruleClass].negations.push({line, pattern, ignoreLib: ignore({ignorecase}).add(pattern.slice(1))})
+      }
+    }
+  }
+  
+  return rules
+}
+
+/**
+ * Test a path against the rules of one ignore file
+ *
+ * @param rules - Compiled rules of one class
+ * @param file - Ignore file the rules come from
+ * @param path - Path relative to the ignore file's directory
+ * @returns Whether the file ignores or re-includes the path, and the rule that did it
+ */
+function testRules(rules: CompiledRules, file: string, path: string): {ignored: boolean, unignored: boolean, rule: MatchedRule | null} {
+  const {ignored, unignored, rule} = rules.ignoreLib.test(path)
+  
+  if (ignored && rule) {
+    return {ignored, unignored, rule: {file, line: Number(rule.mark), pattern: rule.pattern, negated: false}}
+  }
+  
+  if (unignored) {
+    const negation = rules.negations.findLast(candidate => candidate.ignoreLib.ignores(path))
+    if (negation) {
+      return {ignored, unignored, rule: {file, line: negation.line, pattern: negation.pattern, negated: true}}
+    }
+  }
+  
+  return {ignored, unignored, rule: null}
+}
+
+/**
+ * Load ignore patterns from an ignore file
+ * @param ignorePath - Absolute path to the ignore file (.ignore, .aiignore, global file...)
+ * @param ignorecase - Match patterns regardless of case
+ * @returns Rules or null if the file does not exist
+ */
+async function loadIgnore(ignorePath: string, ignorecase: boolean): Promise<IgnoreRules | null> {
+  const file = Bun.file(ignorePath)
+  if (await file.exists()) {
+    return parseIgnoreRules(await file.text(), ignorecase)
+  }
+  
+  return null
+}
+
+/**
+ * Get a version stamp of an ignore file
+ * Used to detect edits without re-reading the file
+ * @param ignorePath - Absolute path to the ignore file
+ * @returns Modification time and size, or null if the file does not exist
+ */
+async function ignoreFileVersion(ignorePath: string): Promise<string | null> {
+  try {
+    const stats = await stat(ignorePath)
+    return `${stats.mtimeMs}:${stats.size}`
+  } catch {
+    return null
+  }
+}
+
+/**
+ * List ancestor directories of a normalized path, from project root down
+ *
+ * @example
+ * ancestorDirectories("a/b/file.txt") // ["", "a/", "a/b/"]
+ * ancestorDirectories("a/b/")         // ["", "a/"]
+ *
+ * @param normalizedPath - Path returned by normalizePath
+ * @returns Directories relative to project root, each with trailing "/" (root is "")
+ */
+function ancestorDirectories(normalizedPath: string): string[] {
+  const segments = normalizedPath.split("/").filter(Boolean)
+  segments.pop() // The path itself is not its own ancestor
+  
+  const directories = [""]
+  let current = ""
+  for (const segment of segments) {
+    current += segment + "/"
+    directories.push(current)
+  }
+  
+  return directories
+}
+
+/**
+ * Match a path against ignore sources, letting deeper files override shallower ones
+ * Each source sees the path relative to its own directory
+ *
+ * @param sources - Ignore sources ordered from shallowest to deepest
+ * @param normalizedPath - Path returned by normalizePath
+ * @param ruleClass - Class of rules to apply
+ * @returns Decision of the last source with a matching rule, and that rule
+ */
+function matchSources(sources: IgnoreSource[], normalizedPath: string, ruleClass: RuleClass): RuleDecision {
+  let decision: RuleDecision = {blocked: false, rule: null}
+  
+  for (const {base, file, rules} of sources) {
+    if (!normalizedPath.startsWith(base) || normalizedPath === base) continue
+    
+    const {ignored, unignored, rule} = testRules(rules[ruleClass], file, normalizedPath.slice(base.length))
+    if (ignored || unignored) decision = {blocked: ignored, rule}
+  }
+  
+  return decision
+}
+
+/**
+ * Check a path against hierarchical ignore sources
+ *
+ * Git semantics: a file inside an excluded directory cannot be re-included,
+ * so every ancestor directory is checked before the path itself.
+ *
+ * @param sources - Ignore sources ordered from shallowest to deepest
+ * @param normalizedPath - Path returned by normalizePath
+ * @param ruleClass - Class of rules to apply
+ * @returns Whether the path is ignored (should be blocked) and the deciding rule
+ */
+function decidePath(sources: IgnoreSource[], normalizedPath: string, ruleClass: RuleClass): RuleDecision {
+  if (sources.length === 0) return {blocked: false, rule: null}
+  
+  for (const directory of ancestorDirectories(normalizedPath).slice(1)) {
+    const decision = matchSources(sources, directory, ruleClass)
+    if (decision.blocked) return decision
+  }
+  
+  return matchSources(sources, normalizedPath, ruleClass)
+}
+
+/** Symlink hops followed by hand before giving up (same limit as Linux ELOOP) */
+const MAX_SYMLINK_DEPTH = 40
+
+/**
+ * Policy for paths outside the project root
+ * - deny: block every outside path (default)
+ * - allow: allow every outside path
+ * - listed: allow only paths inside listed external directories, minus their own patterns
+ */
+type OutsideRootPolicy = "deny" | "allow" | "listed"
+
+const OUTSIDE_ROOT_POLICIES: OutsideRootPolicy[] = ["deny", "allow", "listed"]
+
+/**
+ * External directory accessible under the "listed" policy
+ */
+interface ExternalDirectoryConfig {
+  /** Directory path (absolute, relative to project root, or starting with "~/") */
+  path: string
+  /** Gitignore-style patterns, relative to the directory, that stay blocked */
+  patterns?: string[]
+}
+
+interface OutsideRootConfig {
+  policy: OutsideRootPolicy
+  directories?: ExternalDirectoryConfig[]
+}
+
+/**
+ * Audit log of denied and filtered accesses
+ */
+interface AuditLogConfig {
+  /** JSONL file (absolute, relative to project root, or starting with "~/"), outside the project by default */
+  path?: string
+  /** Rotate when the file would exceed this many bytes */
+  maxSize?: number
+  /** Rotated files to keep */
+  maxFiles?: number
+}
+
+/**
+ * What the plugin does with a call or output it cannot verify
+ * - closed: deny the call, withhold the output (default)
+ * - open: let it through and log a warning
+ */
+type FailMode = "closed" | "open"
+
+const FAIL_MODES: FailMode[] = ["closed", "open"]
+
+/**
+ * Rule settings that a profile can replace
+ */
+export interface RuleSettings {
+  outsideRoot?: OutsideRootConfig
+  /** Ignore file names loaded in every directory, lowest precedence first */
+  ignoreFiles?: string[]
+  /** Global user ignore file (patterns relative to project root), false to disable */
+  globalIgnoreFile?: string | false
+}
+
+/**
+ * Project configuration of the plugin
+ */
+export interface PluginConfig extends RuleSettings {
+  /** Rule settings for sessions of an agent (build, plan, a subagent...), by agent name */
+  profiles?: Record<string, RuleSettings>
+  /** Audit log settings, true for defaults (disabled by default) */
+  auditLog?: boolean | AuditLogConfig
+  /** Path arguments and output format of custom and MCP tools, by tool name ("*" matches any characters) */
+  tools?: Record<string, ToolConfig>
+  /** Native tools to check (default: all); configured tools are always checked */
+  enforcedTools?: string[]
+  /** Handling of patches and output that cannot be parsed, and of errors while checking (default: closed) */
+  failMode?: FailMode
+  /** Denial messages shown to the agent, by denial code */
+  messages?: MessageTemplates
+  /** Match patterns regardless of case (default: detected from the project's filesystem) */
+  ignorecase?: boolean
+  /** Deny bash commands whose paths are only known at runtime (default: false) */
+  strictBash?: boolean
+  /** Log every decision with the rule that made it (default: false) */
+  debug?: boolean
+}
+
+/** Settings a profile can hold */
+const RULE_SETTINGS = ["outsideRoot", "ignoreFiles", "globalIgnoreFile"]
+
+/** Settings of the configuration file */
+const CONFIG_SETTINGS = [...RULE_SETTINGS, "profiles", "auditLog", "tools", "enforcedTools", "failMode", "messages", "ignorecase", "strictBash", "debug"]
+
+/** Settings of the audit log */
+const AUDIT_LOG_SETTINGS = ["path", "maxSize", "maxFiles"]
+
+/** Settings of a configured tool */
+const TOOL_SETTINGS = ["paths", "output"]
+
+/** Settings of a path argument of a configured tool */
+const TOOL_PATH_SETTINGS = ["arg", "directory", "operation"]
+
+/** Project configuration file, relative to project root */
+export const CONFIG_FILE = join(".opencode", "ignore.json")
+
+/**
+ * Ignore file names loaded by default, lowest precedence first
+ * .ignore is the plugin's own file, so it has the last word; .gitignore is opt-in via ignoreFiles
+ */
+const DEFAULT_IGNORE_FILES = [".aiexclude", ".aiignore", ".codeiumignore", ".cursorignore", ".ignore"]
+
+/**
+ * Default location of the global user ignore file
+ * @returns $XDG_CONFIG_HOME/opencode/ignore, falling back to ~/.config/opencode/ignore
+ */
+function defaultGlobalIgnoreFile(): string {
+  return join(process.env.XDG_CONFIG_HOME || join(homedir(), ".config"), "opencode", "ignore")
+}
+
+/**
+ * Ignore file names the configuration loads in every directory
+ * @param config - Plugin configuration (after applying a profile)
+ * @returns File names, lowest precedence first
+ */
+export function ignoreFileNames(config: RuleSettings): string[] {
+  return config.ignoreFiles ?? DEFAULT_IGNORE_FILES
+}
+
+/**
+ * Location of the global user ignore file the configuration loads
+ * @param projectRoot - Absolute path to project root
+ * @param config - Plugin configuration (after applying a profile)
+ * @returns Absolute path, or null if the global file is disabled
+ */
+export function globalIgnorePath(projectRoot: string, config: RuleSettings): string | null {
+  return config.globalIgnoreFile === false
+    ? null
+    : resolve(projectRoot, expandHome(config.globalIgnoreFile ?? defaultGlobalIgnoreFile()))
+}
+
+/**
+ * Reject a setting the plugin does not know, such as "path" misspelled for "paths"
+ * A misspelled setting would otherwise leave what it configures silently unprotected
+ *
+ * @param settings - Parsed settings object
+ * @param known - Settings it may hold
+ * @param prefix - Location of the object in the config file ("", "auditLog.", "tools.<name>."...)
+ * @throws Error naming the unknown setting
+ */
+function rejectUnknownSettings(settings: object, known: string[], prefix: string): void {
+  const unknown = Object.keys(settings).find(key => !known.includes(key))
+  if (unknown !== undefined) {
+    throw new Error(`Invalid ${CONFIG_FILE}: unknown setting ${prefix}${unknown}`)
+  }
+}
+
+/**
+ * Validate the rule settings of the configuration or of a profile
+ * @param settings - Parsed settings
+ * @param prefix - Location of the settings in the config file ("" or "profiles.<agent>.")
+ * @throws Error naming the invalid setting
+ */
+function validateRuleSettings(settings: RuleSettings, prefix: string): void {
+  rejectUnknownSettings(settings, prefix === "" ? CONFIG_SETTINGS : RULE_SETTINGS, prefix)
+  
+  const outsideRoot = settings.outsideRoot
+  if (outsideRoot !== undefined && (typeof outsideRoot !== "object" || outsideRoot === null || Array.isArray(outsideRoot)
+    || !Object.keys(outsideRoot).every(key => key === "policy" || key === "directories"))) {
+    throw new Error(`Invalid ${CONFIG_FILE}: ${prefix}outsideRoot must be {policy, directories}`)
+  }
+  
+  const policy = outsideRoot?.policy
+  if (policy !== undefined && !OUTSIDE_ROOT_POLICIES.includes(policy)) {
+    throw new Error(`Invalid ${CONFIG_FILE}: ${prefix}outsideRoot.policy must be one of ${OUTSIDE_ROOT_POLICIES.join(", ")}`)
+  }
+  
+  const directories = outsideRoot?.directories
+  if (directories !== undefined && (!Array.isArray(directories) || !directories.every(directory =>
+    typeof directory === "object" && directory !== null
+    && Object.keys(directory).every(key => key === "path" || key === "patterns")
+    && typeof directory.path === "string" && directory.path !== ""
+    && (directory.patterns === undefined || (Array.isArray(directory.patterns) && directory.patterns.every(pattern => typeof pattern === "string")))))) {
+    throw new Error(`Invalid ${CONFIG_FILE}: ${prefix}outsideRoot.directories must be a list of {path, patterns} with a path and a list of patterns`)
+  }
+  
+  const ignoreFiles = settings.ignoreFiles
+  if (ignoreFiles !== undefined && (!Array.isArray(ignoreFiles)
+    || !ignoreFiles.every(name => typeof name === "string" && name !== "" && !/[\\/]/.test(name)))) {
+    throw new Error(`Invalid ${CONFIG_FILE}: ${prefix}ignoreFiles must be a list of file names`)
+  }
+  
+  const globalIgnoreFile = settings.globalIgnoreFile
+  if (globalIgnoreFile !== undefined && globalIgnoreFile !== false && typeof globalIgnoreFile !== "string") {
+    throw new Error(`Invalid ${CONFIG_FILE}: ${prefix}globalIgnoreFile must be a path or false`)
+  }
+}
+
+/**
+ * Load plugin configuration from project root
+ * Uses .opencode/ignore.json
+ * @param projectRoot - Absolute path to project root
+ * @returns Parsed configuration (empty if no config file exists)
+ * @throws Error if the config file is not valid JSON or has invalid settings
+ */
+export async function loadConfig(projectRoot: string): Promise<PluginConfig> {
+  const file = Bun.file(join(projectRoot, CONFIG_FILE))
+  if (!await file.exists()) return {}
+  
+  let config: PluginConfig
+  try {
+    config = await file.json()
+  } catch (error) {
+    throw new Error(`Invalid ${CONFIG_FILE}: not valid JSON (${(error as Error).message})`)
+  }
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw new Error(`Invalid ${CONFIG_FILE}: settings must be a JSON object`)
+  }
+  
+  validateRuleSettings(config, "")
+  
+  const profiles = config.profiles
+  if (profiles !== undefined && (typeof profiles !== "object" || profiles === null || Array.isArray(profiles))) {
+    throw new Error(`Invalid ${CONFIG_FILE}: profiles must map agent names to {ignoreFiles, globalIgnoreFile, outsideRoot}`)
+  }
+  for (const [agent, profile] of Object.entries(profiles ?? {})) {
+    if (typeof profile !== "object" || profile === null) {
+      throw new Error(`Invalid ${CONFIG_FILE}: profiles.${agent} must be {ignoreFiles, globalIgnoreFile, outsideRoot}`)
+    }
+    validateRuleSettings(profile, `profiles.${agent}.`)
+  }
+  
+  const auditLog = config.auditLog
+  if (auditLog !== undefined && typeof auditLog !== "boolean") {
+    if (typeof auditLog !== "object" || auditLog === null || Array.isArray(auditLog)
+      || (auditLog.path !== undefined && typeof auditLog.path !== "string")
+      || (auditLog.maxSize !== undefined && !(Number.isInteger(auditLog.maxSize) && auditLog.maxSize > 0))
+      || (auditLog.maxFiles !== undefined && !(Number.isInteger(auditLog.maxFiles) && auditLog.maxFiles > 0))) {
+      throw new Error(`Invalid ${CONFIG_FILE}: auditLog must be true, false or {path, maxSize, maxFiles} with positive integer limits`)
+    }
+    rejectUnknownSettings(auditLog, AUDIT_LOG_SETTINGS, "auditLog.")
+  }
+  
+  const tools = config.tools
+  if (tools !== undefined && (typeof tools !== "object" || tools === null || Array.isArray(tools))) {
+    throw new Error(`Invalid ${CONFIG_FILE}: tools must map tool names to {paths, output}`)
+  }
+  for (const [name, tool] of Object.entries(tools ?? {})) {
+    if (typeof tool !== "object" || tool === null || Array.isArray(tool)
+      || (tool.paths !== undefined && !Array.isArray(tool.paths))
+      || (tool.output !== undefined && !OUTPUT_FORMATS.includes(tool.output))) {
+      throw new Error(`Invalid ${CONFIG_FILE}: tools.${name} must be {paths, output} with output one of ${OUTPUT_FORMATS.join(", ")}`)
+    }
+    rejectUnknownSettings(tool, TOOL_SETTINGS, `tools.${name}.`)
+    for (const [index, path] of (tool.paths ?? []).entries()) {
+      if (typeof path !== "object" || path === null || typeof path.arg !== "string" || !parseArgPath(path.arg)
+        || (path.directory !== undefined && typeof path.directory !== "boolean")
+        || (path.operation !== undefined && path.operation !== "read" && path.operation !== "write")) {
+        throw new Error(`Invalid ${CONFIG_FILE}: tools.${name}.paths entries must be {arg, directory, operation} with an argument name or JSON path and operation read or write`)
+      }
+      rejectUnknownSettings(path, TOOL_PATH_SETTINGS, `tools.${name}.paths[${index}].`)
+    }
+  }
+  
+  const enforcedTools = config.enforcedTools
+  if (enforcedTools !== undefined && (!Array.isArray(enforcedTools) || !enforcedTools.every(tool => NATIVE_TOOLS.includes(tool)))) {
+    throw new Error(`Invalid ${CONFIG_FILE}: enforcedTools must be a list of tools among ${NATIVE_TOOLS.join(", ")}`)
+  }
+  
+  if (config.failMode !== undefined && !FAIL_MODES.includes(config.failMode)) {
+    throw new Error(`Invalid ${CONFIG_FILE}: failMode must be one of ${FAIL_MODES.join(", ")}`)
+  }
+  
+  for (const setting of ["ignorecase", "strictBash", "debug"] as const) {
+    if (config[setting] !== undefined && typeof config[setting] !== "boolean") {
+      throw new Error(`Invalid ${CONFIG_FILE}: ${setting} must be true or false`)
+    }
+  }
+  
+  const messages = config.messages
+  if (messages !== undefined && (typeof messages !== "object" || messages === null || Array.isArray(messages))) {
+    throw new Error(`Invalid ${CONFIG_FILE}: messages must map denial codes (${DENIAL_CODES.join(", ")}) to message templates`)
+  }
+  for (const [code, template] of Object.entries(messages ?? {})) {
+    if (!(DENIAL_CODES as string[]).includes(code)) {
+      throw new Error(`Invalid ${CONFIG_FILE}: unknown message messages.${code}, expected one of ${DENIAL_CODES.join(", ")}`)
+    }
+    if (typeof template !== "string" || template.trim() === "") {
+      throw new Error(`Invalid ${CONFIG_FILE}: messages.${code} must be a non-empty string`)
+    }
+    const unknown = unknownPlaceholders(template)
+    if (unknown.length > 0) {
+      throw new Error(`Invalid ${CONFIG_FILE}: messages.${code} uses unknown placeholder {${unknown[0]}}, expected ${MESSAGE_PLACEHOLDERS.map(name => `{${name}}`).join(", ")}`)
+    }
+  }
+  
+  return config
+}
+
+/**
+ * Apply the profile of an agent to the configuration
+ * Settings the profile leaves out keep their project-wide values
+ *
+ * @param config - Plugin configuration
+ * @param agent - Agent name (undefined if unknown)
+ * @returns Configuration with the agent's rule settings, or config itself if the agent has no profile
+ */
+export function profileConfig(config: PluginConfig, agent: string | undefined): PluginConfig {
+  if (agent === undefined || !config.profiles || !Object.hasOwn(config.profiles, agent)) return config
+  return {...config, ...config.profiles[agent]}
+}
+
+/**
+ * Result of checking a path
+ * - allowed: access permitted
+ * - blocked: matched an ignore pattern
+ * - read-only: write denied by a read-only rule, reading is allowed
+ * - redacted: matched a redact rule; only readable with secret values masked, never written
+ * - prompt: matched a prompt rule; accessible once the user approves
+ * - outside-root: outside the project root and not permitted by the outside-root policy
+ */
+export type PathDecision = "allowed" | "blocked" | "read-only" | "redacted" | "prompt" | "outside-root"
+
+/**
+ * Outcome of checking a path
+ */
+export interface PathCheck {
+  decision: PathDecision
+  /** Path the decision was made for: normalized relative to the project root, or absolute outside it */
+  normalizedPath: string
+  /** Rule that decided the outcome (for allowed paths, a negation that re-included it) */
+  rule?: MatchedRule
+}
+
+/**
+ * How a path is used by a tool
+ * "unknown" checks the path as a file, as a directory and for rules blocking everything inside it
+ */
+export type PathKind = "file" | "directory" | "unknown"
+
+/** File name no real pattern targets, used to ask whether a directory's contents are blocked as a whole */
+const DIRECTORY_CONTENTS_PROBE = "\u2063"
+
+/**
+ * Normalized forms of a path to match for a given kind
+ *
+ * @param relativePath - Path relative to root (not empty, not outside root)
+ * @param root - Absolute path the rules are relative to
+ * @param kind - How the path is used
+ * @returns Normalized paths; the path is blocked if any of them is ignored
+ */
+function pathForms(relativePath: string, root: string, kind: PathKind): string[] {
+  if (kind === "file") return [normalizePath(relativePath, root, false)]
+  if (kind === "directory") return [normalizePath(relativePath, root, true)]
+  
+  const directoryPath = normalizePath(relativePath, root, true)
+  return [normalizePath(relativePath, root, false), directoryPath, directoryPath + DIRECTORY_CONTENTS_PROBE]
+}
+
+/** Decides access to an absolute path outside the project root */
+type OutsideRootCheck = (absolutePath: string, kind: PathKind) => PathCheck
+
+/**
+ * Compile the outside-root policy
+ *
+ * @param config - Outside-root configuration (defaults to deny)
+ * @param projectRoot - Absolute path to project root (base for relative directory paths)
+ * @param ignorecase - Match patterns regardless of case
+ * @returns Check function for paths outside the project root
+ */
+function createOutsideRootCheck(config: OutsideRootConfig | undefined, projectRoot: string, ignorecase: boolean): OutsideRootCheck {
+  const policy = config?.policy ?? "deny"
+  if (policy === "allow") return absolutePath => ({decision: "allowed", normalizedPath: absolutePath})
+  if (policy === "deny") return absolutePath => ({decision: "outside-root", normalizedPath: absolutePath})
+  
+  const directories = (config?.directories ?? []).map(directory => ({
+    root: resolve(projectRoot, expandHome(directory.path)),
+    ignoreLib: ignore({ignorecase}).add((directory.patterns ?? []).map(pattern => pattern.normalize("NFC")))
+  }))
+  
+  return (absolutePath, kind) => {
+    for (const {root, ignoreLib} of directories) {
+      const relativePath = relative(root, absolutePath)
+      if (isOutsideRelativePath(relativePath)) continue
+      if (relativePath === "") return {decision: "allowed", normalizedPath: absolutePath}
+      
+      for (const form of pathForms(relativePath, root, kind)) {
+        const {ignored, rule} = ignoreLib.test(form)
+        if (ignored) {
+          const matched = rule && {file: CONFIG_FILE, pattern: rule.pattern, negated: false}
+          return {decision: "blocked", normalizedPath: absolutePath, rule: matched}
+        }
+      }
+      return {decision: "allowed", normalizedPath: absolutePath}
+    }
+    
+    return {decision: "outside-root", normalizedPath: absolutePath}
+  }
+}
+
+/**
+ * Check if a path is a symlink
+ * Synchronous lstat without throwing keeps the common case (regular or missing file) cheap
+ * @param path - Absolute path to check
+ * @returns true if path exists and is a symlink
+ */
+function isSymbolicLink(path: string): boolean {
+  try {
+    return lstatSync(path, {throwIfNoEntry: false})?.isSymbolicLink() ?? false
+  } catch {
+    // ENOTDIR, ELOOP... - nothing to follow
+    return false
+  }
+}
+
+/**
+ * Resolve symlinks in an absolute path, including paths that do not exist yet
+ *
+ * The parent is resolved first (through resolveParent, which may cache), then
+ * only the last segment is inspected. A missing path keeps its last segment, so
+ * a new file under a symlinked directory maps to its real location. Dangling
+ * links are followed by hand, so writing through them is checked too.
+ *
+ * @param absolutePath - Absolute path to resolve
+ * @param resolveParent - Resolver used for the parent directory
+ * @param depth - Dangling links followed so far
+ * @returns Real absolute path
+ */
+async function resolveRealPath(
+  absolutePath: string,
+  resolveParent: (path: string) => Promise<string>,
+  depth = 0
+): Promise<string> {
+  const parent = dirname(absolutePath)
+  if (parent === absolutePath) return absolutePath // Filesystem root
+  
+  const located = join(await resolveParent(parent), basename(absolutePath))
+  
+  if (!isSymbolicLink(located)) return located
+  
+  try {
+    return await realpath(located)
+  } catch {
+    if (depth >= MAX_SYMLINK_DEPTH) return located
+    
+    try {
+      const target = await readlink(located)
+      // Not cached: a link loop would otherwise wait on its own pending resolution
+      const resolveUncached = (path: string): Promise<string> => resolveRealPath(path, resolveUncached, depth + 1)
+      return await resolveUncached(isAbsolute(target) ? target : join(dirname(located), target))
+    } catch {
+      return located
+    }
+  }
+}
+
+/** Upper bound on cached decisions before the cache is reset */
+const MAX_CACHED_DECISIONS = 100_000
+
+/**
+ * Compiled .ignore file with the version it was loaded from
+ */
+interface CachedIgnore {
+  version: string | null
+  /** Refresh generation in which the version was last compared with the file */
+  checked: number
+  rules: IgnoreRules | null
+}
+
+/**
+ * Compiled ignore rules of a project, cached across tool calls
+ */
+export interface RuleEngine {
+  projectRoot: string
+  /** Mark known .ignore files for re-checking the next time a path below them is decided */
+  refresh(): Promise<void>
+  /** Check a normalized path (see normalizePath) against all applicable ignore files */
+  decide(normalizedPath: string, ruleClass: RuleClass): Promise<RuleDecision>
+  /**
+   * Tell whether the ignore files that apply below a directory have negation rules
+   * Ignore files in subdirectories of the directory are not read in advance
+   */
+  reincludes(normalizedDirectory: string, ruleClass: RuleClass): Promise<boolean>
+  /** Resolve symlinks in an absolute path (cached until the next refresh) */
+  resolve(absolutePath: string): Promise<string>
+  /** Decide access to an absolute path outside the project root */
+  checkOutside: OutsideRootCheck
+}
+
+/**
+ * Create a rule engine for a project
+ *
+ * Ignore files are loaded lazily and compiled once. Sources are evaluated in order of
+ * precedence, lowest first: the global user file, then every directory from project
+ * root down to the path, and within a directory the configured file names in order.
+ * refresh() does no disk work: it starts a new generation, and the first decision
+ * after it compares the mtime and size of the files on that path's ancestor chain
+ * (including files that did not exist yet) with the loaded versions, reloading only
+ * what changed. A tool call therefore stats the ignore files of the paths it touches,
+ * not every ignore file location ever looked up.
+ * Decisions are cached per normalized path and rule class, and cleared whenever any rule changes.
+ * Resolved symlinks are cached only until the next refresh, since links can change at any time.
+ *
+ * @param projectRoot - Absolute path to project root
+ * @param config - Plugin configuration (ignore sources, outside-root policy)
+ * @returns RuleEngine bound to the project
+ */
+export function createRuleEngine(projectRoot: string, config: PluginConfig = {}): RuleEngine {
+  const fileNames = ignoreFileNames(config)
+  const ignorecase = config.ignorecase ?? detectIgnoreCase(projectRoot)
+  const globalPath = globalIgnorePath(projectRoot, config)
+  
+  const files = new Map<string, CachedIgnore>()
+  const decisions = new Map<string, RuleDecision>()
+  const realPaths = new Map<string, Promise<string>>()
+  // Sources of each directory whose ignore files were checked in the current generation
+  const checkedSources = new Map<string, IgnoreSource[]>()
+  let generation = 0
+  
+  function resolveCached(absolutePath: string): Promise<string> {
+    let cached = realPaths.get(absolutePath)
+    if (!cached) {
+      cached = resolveRealPath(absolutePath, resolveCached)
+      realPaths.set(absolutePath, cached)
+    }
+    return cached
+  }
+  
+  async function load(ignorePath: string): Promise<IgnoreRules | null> {
+    const cached = files.get(ignorePath)
+    if (cached?.checked === generation) return cached.rules
+    
+    // Stat before reading so a concurrent edit is picked up after the next refresh
+    const checked = generation
+    const version = await ignoreFileVersion(ignorePath)
+    if (cached?.version === version) {
+      cached.checked = checked
+      return cached.rules
+    }
+    
+    // Decisions and sources may depend on the old rules
+    if (cached) {
+      decisions.clear()
+      checkedSources.clear()
+    }
+    const loaded = {version, checked, rules: version === null ? null : await loadIgnore(ignorePath, ignorecase)}
+    files.set(ignorePath, loaded)
+    return loaded.rules
+  }
+  
+  function displayPath(absolutePath: string): string {
+    const relativePath = relative(projectRoot, absolutePath)
+    return isOutsideRelativePath(relativePath) ? absolutePath : relativePath
+  }
+  
+  async function loadSources(normalizedPath: string): Promise<IgnoreSource[]> {
+    const directories = ancestorDirectories(normalizedPath)
+    const parent = directories.at(-1)!
+    const checked = checkedSources.get(parent)
+    if (checked) return checked
+    
+    const sources: IgnoreSource[] = []
+    
+    if (globalPath) {
+      const rules = await load(globalPath)
+      if (rules) sources.push({base: "", file: displayPath(globalPath), rules})
+    }
+    
+    for (const directory of directories) {
+      for (const fileName of fileNames) {
+        const rules = await load(join(projectRoot, directory, fileName))
+        if (rules) sources.push({base: directory, file: directory + fileName, rules})
+      }
+    }
+    
+    checkedSources.set(parent, sources)
+    return sources
+  }
+  
+  return {
+    projectRoot,
+    
+    resolve: resolveCached,
+    
+    checkOutside: createOutsideRootCheck(config.outsideRoot, projectRoot, ignorecase),
+    
+    async refresh() {
+      realPaths.clear()
+      checkedSources.clear()
+      generation++
+    },
+    
+    async decide(normalizedPath, ruleClass) {
+      // Loading the sources re-checks their files once per generation, which clears decisions if one changed
+      const sources = await loadSources(normalizedPath)
+      
+      const key = `${ruleClass}:${normalizedPath}`
+      const cached = decisions.get(key)
+      if (cached !== undefined) return cached
+      
+      const decision = decidePath(sources, normalizedPath, ruleClass)
+      
+      if (decisions.size >= MAX_CACHED_DECISIONS) decisions.clear()
+      decisions.set(key, decision)
+      
+      return decision
+    },
+    
+    async reincludes(normalizedDirectory, ruleClass) {
+      const sources = await loadSources(normalizedDirectory + DIRECTORY_CONTENTS_PROBE)
+      return sources.some(({rules}) => rules[ruleClass].negations.length > 0)
+    }
+  }
+}
+
+/**
+ * Normalize path to format required by ignore library
+ *
+ * The ignore library requires specific path format:
+ * - Must be relative to project root (no absolute paths)
+ * - No "./" prefix (must be clean like "src/file.ts")
+ * - Use forward slashes (Win32 backslashes converted)
+ * - Directories need trailing "/" for proper matching
+ *
+ * @param targetPath - Path to normalize (absolute or relative)
+ * @param projectRoot - Absolute path to project root
+ * @param isDirectory - Whether the path represents a directory
+ * @returns Normalized relative path ready for ignore library
+ * @throws Error if resulting path format is invalid
+ */
+export function normalizePath(targetPath: string, projectRoot: string, isDirectory: boolean): string {
+  // Step 1: Convert to absolute if needed (handles relative paths)
+  const absolutePath = isAbsolute(targetPath) ? targetPath : join(projectRoot, targetPath)
+  
+  // Step 2: Make relative to project root
+  const relativePath = relative(projectRoot, absolutePath)
+  
+  // Step 3: Handle empty path (project root itself)
+  const resolvedPath = relativePath === "" ? "." : relativePath
+  
+  // Step 4: Normalize separators (Win32 backslashes → forward slashes)
+  const normalizedPath = resolvedPath.replace(/\\/g, "/")
+  
+  // Step 5: Remove "./" prefix (critical - ignore library requirement)
+  const withoutPrefixPath = normalizedPath.startsWith("./") ? normalizedPath.slice(2) : normalizedPath
+  
+  // Step 6: Add trailing "/" for directories (except project root)
+  // This ensures directory patterns match correctly (e.g., "src/" vs "src")
+  const withSlashPath = isDirectory && withoutPrefixPath !== "." && !withoutPrefixPath.endsWith("/")
+    ? withoutPrefixPath + "/"
+    : withoutPrefixPath
+  
+  // Step 7: Validate path format using ignore library validator
+  if (!isPathValid(withSlashPath)) {
+    throw new Error(`Invalid path format: ${withSlashPath}`)
+  }
+  
+  return withSlashPath
+}
+
+/**
+ * Check an absolute path against the rules of a root directory
+ *
+ * @param absolutePath - Absolute path to check
+ * @param root - Project root the path is checked against (as written or with symlinks resolved)
+ * @param engine - Rule engine of the project
+ * @param kind - How the path is used
+ * @param operation - Access the tool needs
+ * @returns Decision for the path
+ */
+async function checkAbsolutePath(
+  absolutePath: string,
+  root: string,
+  engine: RuleEngine,
+  kind: PathKind,
+  operation: Operation
+): Promise<PathCheck> {
+  const relativePath = relative(root, absolutePath)
+  
+  // Always allow project root to prevent blocking entire project
+  if (relativePath === "") return {decision: "allowed", normalizedPath: "."}
+  
+  if (isOutsideRelativePath(relativePath)) return engine.checkOutside(absolutePath, kind)
+  
+  const forms = pathForms(relativePath, root, kind)
+  let allowedBy: MatchedRule | undefined
+  let redactedBy: PathCheck | undefined
+  let promptedBy: PathCheck | undefined
+  for (const form of forms) {
+    const {blocked, rule} = await engine.decide(form, operation)
+    if (!blocked) {
+      allowedBy ??= rule ?? undefined
+      
+      const redaction = operation === "read" ? await engine.decide(form, "redact") : null
+      if (redaction?.blocked) redactedBy ??= {decision: "redacted", normalizedPath: form, rule: redaction.rule ?? undefined}
+      
+      const prompt = await engine.decide(form, "prompt")
+      if (prompt.blocked) promptedBy ??= {decision: "prompt", normalizedPath: form, rule: prompt.rule ?? undefined}
+      continue
+    }
+    
+    // Tell the agent when only writing is restricted
+    if (operation === "write" && !(await engine.decide(form, "read")).blocked) {
+      const redacted = (await engine.decide(form, "redact")).blocked
+      return {decision: redacted ? "redacted" : "read-only", normalizedPath: form, rule: rule ?? undefined}
+    }
+    return {decision: "blocked", normalizedPath: form, rule: rule ?? undefined}
+  }
+  
+  // Masked content needs no approval
+  return redactedBy ?? promptedBy ?? {decision: "allowed", normalizedPath: forms[0] ?? relativePath, rule: allowedBy}
+}
+
+/**
+ * Check if a decision lets the remaining forms of a path still be checked
+ * @param check - Check result of one form
+ * @returns true unless the form is denied outright
+ */
+function isOpen({decision}: PathCheck): boolean {
+  return decision === "allowed" || decision === "redacted" || decision === "prompt"
+}
+
+/**
+ * Check an absolute path as written and at its real location
+ *
+ * @param absolutePath - Absolute path to check
+ * @param engine - Rule engine of the project
+ * @param kind - How the path is used
+ * @param operation - Access the tool needs
+ * @returns Decision for the path (denied if either location is denied, redacted or prompt if either is)
+ */
+async function checkLocations(absolutePath: string, engine: RuleEngine, kind: PathKind, operation: Operation): Promise<PathCheck> {
+  const check = await checkAbsolutePath(absolutePath, engine.projectRoot, engine, kind, operation)
+  if (!isOpen(check)) return check
+  
+  // Check where the path really points to
+  const [realPath, realRoot] = await Promise.all([engine.resolve(absolutePath), engine.resolve(engine.projectRoot)])
+  if (realPath === absolutePath && realRoot === engine.projectRoot) return check
+  
+  const realCheck = await checkAbsolutePath(realPath, realRoot, engine, kind, operation)
+  return realCheck.decision === "allowed" ? check : realCheck
+}
+
+/**
+ * Check if a path should be blocked by .ignore patterns or the outside-root policy
+ * Honors .ignore files in the project root and in every ancestor directory of the path
+ *
+ * The path is checked both as written and at its real location, so a symlink
+ * (or a symlinked parent directory) cannot be used to reach blocked files.
+ * Links resolving outside the project root are subject to the outside-root policy.
+ * Other spellings of the path ("~/", decomposed Unicode, trailing dots, see
+ * pathVariants) are checked the same way, so none of them gets past a rule.
+ *
+ * @param targetPath - Path to check (absolute or relative)
+ * @param engine - Rule engine of the project
+ * @param kind - How the path is used
+ * @param operation - Access the tool needs
+ * @returns Decision for the path (denied if any form is denied, redacted or prompt if any is)
+ */
+export async function checkPath(targetPath: string, engine: RuleEngine, kind: PathKind, operation: Operation): Promise<PathCheck> {
+  const [written, ...variants] = pathVariants(targetPath, engine.projectRoot)
+  
+  let check = await checkLocations(written!, engine, kind, operation)
+  for (const variant of variants) {
+    if (!isOpen(check)) break
+    
+    const variantCheck = await checkLocations(variant, engine, kind, operation)
+    if (variantCheck.decision !== "allowed") check = variantCheck
+  }
+  
+  return check
+}
+
+/**
+ * Format a rule for messages and logs
+ *
+ * @example
+ * formatRule({file: "config/.ignore", line: 12, pattern: "*.properties", negated: false})
+ * // "config/.ignore:12: *.properties"
+ *
+ * @param rule - Matched rule
+ * @returns Location and pattern of the rule
+ */
+export function formatRule(rule: MatchedRule): string {
+  return rule.line === undefined ? `${rule.file}: ${rule.pattern}` : `${rule.file}:${rule.line}: ${rule.pattern}`
+}
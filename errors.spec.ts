@@ -0,0 +1,36 @@
+import { test, expect, describe } from "bun:test"
+import { AccessDeniedError, checkDenial } from "./errors"
+
+const rule = { file: ".ignore", line: 4, pattern: "*.key", negated: false }
+
+describe("AccessDeniedError", () => {
+  test("carries the code, tool, paths and rule", () => {
+    const error = new AccessDeniedError({ ...checkDenial("./certs/a.key", { decision: "blocked", normalizedPath: "certs/a.key", rule }), tool: "read" })
+
+    expect(error).toBeInstanceOf(Error)
+    expect(error).toMatchObject({
+      name: "AccessDeniedError",
+      code: "blocked",
+      tool: "read",
+      path: "./certs/a.key",
+      normalizedPath: "certs/a.key",
+      rule
+    })
+    expect(error.message).toBe("Access denied: ./certs/a.key blocked by ignore file (.ignore:4: *.key). Do NOT try to read this. Access restricted.")
+  })
+
+  test("renders configured templates", () => {
+    const messages = { "read-only": "{tool} may not change {normalizedPath} [{rule}]", "parse-failure": "{tool}: {hint}" }
+
+    const readOnly = { code: "read-only" as const, tool: "edit", path: "/p/vendor/x.js", normalizedPath: "vendor/x.js", rule }
+    expect(new AccessDeniedError(readOnly, messages).message).toBe("edit may not change vendor/x.js [.ignore:4: *.key]")
+    expect(new AccessDeniedError({ code: "parse-failure", tool: "bash", hint: "Simplify." }, messages).message).toBe("bash: Simplify.")
+    expect(new AccessDeniedError({ code: "outside-root", tool: "read", path: "/etc/hosts" }, messages).message)
+      .toBe("Access denied: /etc/hosts is outside the project root. Do NOT try to access this. Access restricted.")
+  })
+
+  test("leaves rule placeholders empty without a rule", () => {
+    const error = new AccessDeniedError({ code: "blocked", tool: "read", path: "a" }, { blocked: "{path} denied{source}|{rule}|" })
+    expect(error.message).toBe("a denied||")
+  })
+})
@@ -0,0 +1,75 @@
+import {DEFAULT_MESSAGES, renderMessage, type DenialCode, type MessageTemplates} from "./messages"
+import {formatRule, type MatchedRule, type PathCheck} from "./engine"
+
+/**
+ * Facts about a denied tool call
+ */
+export interface Denial {
+  code: DenialCode
+  /** Tool that was called */
+  tool: string
+  /** Path as given by the tool (absent for parse failures) */
+  path?: string
+  /** Path the decision was made for */
+  normalizedPath?: string
+  /** Rule that denied access (absent for the outside-root policy and unchecked calls) */
+  rule?: MatchedRule
+  /** How to make an unverifiable call checkable (parse failures only) */
+  hint?: string
+}
+
+/**
+ * Describe the denial of a path by a check
+ * @param path - Path as given by the tool
+ * @param check - Non-allowed check result
+ * @returns Denial without the tool
+ */
+export function checkDenial(path: string, {decision, normalizedPath, rule}: PathCheck): Omit<Denial, "tool"> {
+  return {code: decision === "allowed" ? "blocked" : decision, path, normalizedPath, rule}
+}
+
+/**
+ * Render the message of a denial
+ * @param denial - Facts about the denied call or withheld output
+ * @param messages - Configured message templates, replacing the defaults
+ * @returns Message for the agent
+ */
+export function denialMessage(denial: Denial, messages: MessageTemplates = {}): string {
+  const rule = denial.rule ? formatRule(denial.rule) : ""
+  return renderMessage(messages[denial.code] ?? DEFAULT_MESSAGES[denial.code], {
+    tool: denial.tool,
+    path: denial.path ?? "",
+    normalizedPath: denial.normalizedPath ?? "",
+    rule,
+    source: rule && ` (${rule})`,
+    hint: denial.hint ?? ""
+  })
+}
+
+/**
+ * Error thrown when a tool call is denied
+ * Carries the code and the deciding rule, so callers need not parse the message
+ */
+export class AccessDeniedError extends Error implements Denial {
+  readonly code: DenialCode
+  readonly tool: string
+  readonly path?: string
+  readonly normalizedPath?: string
+  readonly rule?: MatchedRule
+  readonly hint?: string
+
+  /**
+   * @param denial - Facts about the denied call
+   * @param messages - Configured message templates, replacing the defaults
+   */
+  constructor(denial: Denial, messages: MessageTemplates = {}) {
+    super(denialMessage(denial, messages))
+    this.name = "AccessDeniedError"
+    this.code = denial.code
+    this.tool = denial.tool
+    this.path = denial.path
+    this.normalizedPath = denial.normalizedPath
+    this.rule = denial.rule
+    this.hint = denial.hint
+  }
+}
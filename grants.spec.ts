@@ -0,0 +1,103 @@
+import { test, expect, describe } from "bun:test"
+import { createGrants, formatGrant, parseDuration, parseGrantCommand, validateGrantPattern } from "./grants"
+import { readFile, writeFile, mkdir } from "fs/promises"
+
+function tempPath() {
+  return "/tmp/test-grants-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+}
+
+describe("parseDuration", () => {
+  test("parses minutes, hours and days", () => {
+    expect(parseDuration("30m")).toBe(30 * 60 * 1000)
+    expect(parseDuration("2h")).toBe(2 * 60 * 60 * 1000)
+    expect(parseDuration("1d")).toBe(24 * 60 * 60 * 1000)
+  })
+
+  test("rejects other text", () => {
+    expect(parseDuration("0h")).toBeNull()
+    expect(parseDuration("1w")).toBeNull()
+    expect(parseDuration("h")).toBeNull()
+    expect(parseDuration("1.5h")).toBeNull()
+  })
+})
+
+describe("validateGrantPattern", () => {
+  test("accepts gitignore-style patterns", () => {
+    expect(validateGrantPattern("database/connection-string.txt")).toBeNull()
+    expect(validateGrantPattern("/config/*.json")).toBeNull()
+  })
+
+  test("rejects empty, negated and escaping patterns", () => {
+    expect(validateGrantPattern("")).toMatch(/empty/)
+    expect(validateGrantPattern("!secrets")).toMatch(/negation/)
+    expect(validateGrantPattern("../other/secrets")).toMatch(/inside the project/)
+  })
+})
+
+describe("parseGrantCommand", () => {
+  test("parses expanded slash commands", () => {
+    expect(parseGrantCommand("opencode-ignore: grant db/url.txt 2h")).toEqual({ name: "grant", args: ["db/url.txt", "2h"] })
+    expect(parseGrantCommand("opencode-ignore: grants ")).toEqual({ name: "grants", args: [] })
+    expect(parseGrantCommand("opencode-ignore: revoke 3f2a9c1e")).toEqual({ name: "revoke", args: ["3f2a9c1e"] })
+  })
+
+  test("ignores other messages", () => {
+    expect(parseGrantCommand("grant db/url.txt")).toBeNull()
+    expect(parseGrantCommand("opencode-ignore: delete everything")).toBeNull()
+  })
+})
+
+describe("createGrants", () => {
+  test("limits grants to their session and pattern", async () => {
+    const grants = createGrants(tempPath() + "/grants.json", "/project")
+    const grant = await grants.add({ pattern: "database/", sessionID: "s1" })
+
+    expect(await grants.match("s1", "database/connection-string.txt")).toEqual(grant)
+    expect(await grants.match("s1", "secrets/key.txt")).toBeNull()
+    expect(await grants.match("s2", "database/connection-string.txt")).toBeNull()
+    expect(formatGrant(grant)).toBe(`${grant.id}  database/  session s1`)
+  })
+
+  test("applies timed grants to every session until they expire", async () => {
+    const file = tempPath() + "/grants.json"
+    const grants = createGrants(file, "/project")
+    const grant = await grants.add({ pattern: "*.sql", duration: 60 * 60 * 1000 })
+    expect(await grants.match("any", "dumps/db.sql")).toEqual(grant)
+
+    const expired = { ...grant, id: "expired1", expires: new Date(Date.now() - 1000).toISOString() }
+    await writeFile(file, JSON.stringify({ "/project": [grant, expired] }))
+    expect((await grants.list()).map(active => active.id)).toEqual([grant.id])
+
+    await grants.add({ pattern: "x", sessionID: "s1" })
+    const stored = JSON.parse(await readFile(file, "utf8"))["/project"]
+    expect(stored.map((active: any) => active.id)).not.toContain("expired1")
+  })
+
+  test("revokes grants by ID and by session", async () => {
+    const grants = createGrants(tempPath() + "/grants.json", "/project")
+    const first = await grants.add({ pattern: "a.txt", sessionID: "s1" })
+    await grants.add({ pattern: "b.txt", sessionID: "s2" })
+
+    expect(await grants.revoke(first.id)).toEqual(first)
+    expect(await grants.revoke(first.id)).toBeNull()
+
+    await grants.revokeSession("s2")
+    expect(await grants.list()).toEqual([])
+  })
+
+  test("refuses unlimited and invalid grants", async () => {
+    const grants = createGrants(tempPath() + "/grants.json", "/project")
+    await expect(grants.add({ pattern: "a.txt" })).rejects.toThrow(/session or a duration/)
+    await expect(grants.add({ pattern: "!a.txt", sessionID: "s1" })).rejects.toThrow(/negation/)
+  })
+
+  test("keeps the grants of other projects", async () => {
+    const dir = tempPath()
+    await mkdir(dir, { recursive: true })
+    const other = { id: "other123", pattern: "x", sessionID: "s", created: new Date().toISOString() }
+    await writeFile(dir + "/grants.json", JSON.stringify({ "/other": [other] }))
+
+    await createGrants(dir + "/grants.json", "/project").add({ pattern: "a.txt", sessionID: "s1" })
+    expect(await createGrants(dir + "/grants.json", "/other").list()).toEqual([other])
+  })
+})
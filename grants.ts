@@ -0,0 +1,263 @@
+import {mkdir, readFile, writeFile} from "fs/promises"
+import {dirname, join} from "path"
+import {homedir} from "os"
+import {randomUUID} from "crypto"
+import ignore from "ignore"
+
+/**
+ * Temporary exception to the ignore rules, made by the user
+ * Limited to one session, to a time, or both
+ */
+export interface Grant {
+  /** Short random ID, used to revoke the grant */
+  id: string
+  /** Gitignore-style pattern relative to the project root */
+  pattern: string
+  /** Session the grant applies to (every session if absent) */
+  sessionID?: string
+  /** ISO 8601 time the grant ends (end of the session if absent) */
+  expires?: string
+  /** ISO 8601 time the grant was made */
+  created: string
+}
+
+/**
+ * Grant to make
+ */
+export interface GrantOptions {
+  pattern: string
+  sessionID?: string
+  /** Lifetime in milliseconds */
+  duration?: number
+}
+
+/**
+ * Grants of one project, stored outside the project
+ */
+export interface Grants {
+  /** Active grants, oldest first; with a session ID, only those that apply to it */
+  list(sessionID?: string): Promise<Grant[]>
+  /** Make a grant (it must be limited by a session or a duration) */
+  add(options: GrantOptions): Promise<Grant>
+  /** Revoke a grant, returning it, or null if no active grant has the ID */
+  revoke(id: string): Promise<Grant | null>
+  /** Revoke every grant of a session (when the session is deleted) */
+  revokeSession(sessionID: string): Promise<void>
+  /** Find the first active grant of a session that covers a path */
+  match(sessionID: string, normalizedPath: string): Promise<Grant | null>
+}
+
+/**
+ * Command typed by the user to manage grants
+ */
+export interface GrantCommand {
+  name: "grant" | "grants" | "revoke"
+  args: string[]
+}
+
+/** Units of grant durations: 30m, 2h, 1d */
+const DURATION_UNITS: Record<string, number> = {m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000}
+
+/** Text the grant slash commands expand to, recognized by the chat hook */
+const COMMAND_PREFIX = "opencode-ignore:"
+
+/**
+ * Slash commands added to the OpenCode configuration
+ * Each expands to a line the plugin recognizes and answers itself
+ */
+export const GRANT_COMMANDS = {
+  "ignore-grant": {
+    template: `${COMMAND_PREFIX} grant $ARGUMENTS`,
+    description: "Allow the agent a path or pattern for this session, or for a duration (30m, 2h, 1d)"
+  },
+  "ignore-grants": {
+    template: `${COMMAND_PREFIX} grants`,
+    description: "List active opencode-ignore grants"
+  },
+  "ignore-revoke": {
+    template: `${COMMAND_PREFIX} revoke $ARGUMENTS`,
+    description: "Revoke an opencode-ignore grant by ID"
+  }
+}
+
+/**
+ * Default location of the grants file
+ * Kept outside the project, so grants never end up in the repository
+ *
+ * @returns $XDG_DATA_HOME/opencode/ignore-grants.json, falling back to ~/.local/share/opencode/ignore-grants.json
+ */
+export function defaultGrantsFile(): string {
+  return join(process.env.XDG_DATA_HOME || join(homedir(), ".local", "share"), "opencode", "ignore-grants.json")
+}
+
+/**
+ * Parse a grant duration
+ *
+ * @example
+ * parseDuration("90m") // 5400000
+ * parseDuration("1w")  // null
+ *
+ * @param text - Number followed by m (minutes), h (hours) or d (days)
+ * @returns Duration in milliseconds, or null if the text is not a duration
+ */
+export function parseDuration(text: string): number | null {
+  const match = /^(\d+)([mhd])$/.exec(text)
+  if (!match?.[1] || !match[2] || Number(match[1]) === 0) return null
+  return Number(match[1]) * DURATION_UNITS[match[2]]!
+}
+
+/**
+ * Check a grant pattern
+ * @param pattern - Pattern as typed by the user
+ * @returns Error message, or null if the pattern is valid
+ */
+export function validateGrantPattern(pattern: string): string | null {
+  if (pattern === "" || pattern.startsWith("#")) return "Grant pattern must not be empty"
+  if (pattern.startsWith("!")) return "Grant pattern must not be a negation"
+  if (pattern.split("/").includes("..")) return "Grant pattern must stay inside the project root"
+  return null
+}
+
+/**
+ * Parse a message produced by the grant slash commands
+ *
+ * @example
+ * parseGrantCommand("opencode-ignore: grant database/connection-string.txt 2h")
+ * // {name: "grant", args: ["database/connection-string.txt", "2h"]}
+ *
+ * @param text - Text of a user message
+ * @returns Command, or null if the message is not one
+ */
+export function parseGrantCommand(text: string): GrantCommand | null {
+  const trimmed = text.trim()
+  if (!trimmed.startsWith(COMMAND_PREFIX)) return null
+
+  const [name, ...args] = trimmed.slice(COMMAND_PREFIX.length).trim().split(/\s+/)
+  return name === "grant" || name === "grants" || name === "revoke" ? {name, args} : null
+}
+
+/**
+ * Format a grant as one line of text
+ *
+ * @example
+ * // "3f2a9c1e  database/connection-string.txt  session ses_42"
+ *
+ * @param grant - Grant
+ * @returns ID, pattern and limits of the grant
+ */
+export function formatGrant(grant: Grant): string {
+  const limits = [
+    grant.sessionID ? `session ${grant.sessionID}` : "",
+    grant.expires ? `until ${grant.expires}` : ""
+  ].filter(Boolean)
+  return `${grant.id}  ${grant.pattern}  ${limits.join(", ")}`
+}
+
+/**
+ * Check if a grant is still in force
+ * @param grant - Grant
+ * @param now - Current time in milliseconds
+ * @returns true unless the grant has expired
+ */
+function isActive(grant: Grant, now: number): boolean {
+  return grant.expires === undefined || Date.parse(grant.expires) > now
+}
+
+/**
+ * Check if a grant pattern covers a path
+ * @param pattern - Grant pattern
+ * @param normalizedPath - Path relative to project root (directories end with "/")
+ * @returns true if the pattern matches the path or one of its parent directories
+ */
+function covers(pattern: string, normalizedPath: string): boolean {
+  try {
+    return ignore().add(pattern).ignores(normalizedPath)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Read the grants file
+ * @param file - Absolute path of the grants file
+ * @returns Grants by project root, empty if the file is missing or unreadable
+ */
+async function readGrantsFile(file: string): Promise<Record<string, Grant[]>> {
+  try {
+    const data = JSON.parse(await readFile(file, "utf8"))
+    return data && typeof data === "object" && !Array.isArray(data) ? data : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Open the grants of a project
+ *
+ * Every call reads the grants file, so grants made from the command line or
+ * another OpenCode instance apply at once. Expired grants are dropped
+ * whenever the file is written.
+ *
+ * @param file - Absolute path of the grants file
+ * @param projectRoot - Absolute path to project root
+ * @returns Grants of the project
+ */
+export function createGrants(file: string, projectRoot: string): Grants {
+  const load = async (): Promise<Grant[]> => {
+    const grants = (await readGrantsFile(file))[projectRoot]
+    return Array.isArray(grants) ? grants.filter(grant => isActive(grant, Date.now())) : []
+  }
+
+  const update = async (change: (grants: Grant[]) => Grant[]): Promise<void> => {
+    const data = await readGrantsFile(file)
+    const grants = Array.isArray(data[projectRoot]) ? data[projectRoot] : []
+    data[projectRoot] = change(grants.filter(grant => isActive(grant, Date.now())))
+    if (data[projectRoot].length === 0) delete data[projectRoot]
+
+    await mkdir(dirname(file), {recursive: true})
+    await writeFile(file, JSON.stringify(data, null, 2) + "\n")
+  }
+
+  const list = async (sessionID?: string): Promise<Grant[]> => {
+    const grants = await load()
+    return sessionID === undefined ? grants : grants.filter(grant => !grant.sessionID || grant.sessionID === sessionID)
+  }
+
+  return {
+    list,
+
+    async add({pattern, sessionID, duration}) {
+      const error = validateGrantPattern(pattern)
+      if (error) throw new Error(error)
+      if (sessionID === undefined && duration === undefined) throw new Error("Grant must be limited to a session or a duration")
+
+      const now = Date.now()
+      const grant: Grant = {
+        id: randomUUID().slice(0, 8),
+        pattern,
+        ...(sessionID !== undefined && {sessionID}),
+        ...(duration !== undefined && {expires: new Date(now + duration).toISOString()}),
+        created: new Date(now).toISOString()
+      }
+      await update(grants => [...grants, grant])
+      return grant
+    },
+
+    async revoke(id) {
+      const revoked = (await load()).find(grant => grant.id === id) ?? null
+      if (revoked) await update(grants => grants.filter(grant => grant.id !== id))
+      return revoked
+    },
+
+    async revokeSession(sessionID) {
+      if ((await load()).some(grant => grant.sessionID === sessionID)) {
+        await update(grants => grants.filter(grant => grant.sessionID !== sessionID))
+      }
+    },
+
+    async match(sessionID, normalizedPath) {
+      const grants = await list(sessionID)
+      return grants.find(grant => covers(grant.pattern, normalizedPath)) ?? null
+    }
+  }
+}
@@ -1,6 +1,8 @@
-import { test, expect, describe, beforeAll } from "bun:test"
+import { test, expect, describe, beforeAll, afterAll } from "bun:test"
 import { OpenCodeIgnore } from "./index"
+import { AccessDeniedError } from "./errors"
 import path from "path"
+import { mkdir, symlink } from "fs/promises"
 
 // Test data directory is the project root for all tests
 const TEST_PROJECT_ROOT = path.join(process.cwd(), "test-data")
@@ -24,6 +26,12 @@ async function callHook(hook: any, tool: string, args: any) {
   )
 }
 
+// Helper to call the after hook, returning the output it writes back
+async function afterOutput(hook: any, input: any, context: any) {
+  await hook(input, context)
+  return context.output
+}
+
 describe("OpenCodeIgnore Plugin", () => {
   test("plugin loads and registers hook", async () => {
     const plugin = await createPlugin()
@@ -31,49 +39,1165 @@ describe("OpenCodeIgnore Plugin", () => {
     expect(typeof plugin["tool.execute.before"]).toBe("function")
   })
 
-  test("graceful degradation - missing ignore file allows all", async () => {
-    const tempDir = "/tmp/test-no-ignore-" + Date.now()
+  test("graceful degradation - missing ignore file allows all", async () => {
+    const tempDir = "/tmp/test-no-ignore-" + Date.now()
+    const plugin = await createPlugin(tempDir)
+    const hook = plugin["tool.execute.before"]!
+    
+    // Should not throw even though no ignore file exists
+    expect(callHook(hook, "read", { filePath: "secrets.json" })).resolves.toBeUndefined()
+  })
+
+  test("project root (.) is always allowed", async () => {
+    const plugin = await createPlugin()
+    const hook = plugin["tool.execute.before"]!
+    
+    // All directory operations on root should be allowed
+    expect(callHook(hook, "list", { path: "." })).resolves.toBeUndefined()
+    expect(callHook(hook, "glob", { path: "." })).resolves.toBeUndefined()
+    expect(callHook(hook, "grep", { path: "." })).resolves.toBeUndefined()
+  })
+})
+
+describe("Ignore File Loading", () => {
+  test("uses .ignore when available", async () => {
+    // Current project has .ignore, should block secrets.json
+    const plugin = await createPlugin()
+    const hook = plugin["tool.execute.before"]!
+    
+    expect(callHook(hook, "read", { filePath: "secrets.json" }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("loads .ignore file correctly", async () => {
+    const tempDir = "/tmp/test-ignore-" + Date.now()
+    
+    // Create temp dir with .ignore
+    await Bun.write(tempDir + "/.ignore", "blocked.txt\n")
+    
+    const plugin = await createPlugin(tempDir)
+    const hook = plugin["tool.execute.before"]!
+    
+    expect(callHook(hook, "read", { filePath: "blocked.txt" }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+    expect(callHook(hook, "read", { filePath: "allowed.txt" }))
+      .resolves.toBeUndefined()
+  })
+})
+
+describe("Ignore Sources", () => {
+  async function createProject(files: Record<string, string>) {
+    const tempDir = "/tmp/test-ignore-sources-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+    for (const [name, content] of Object.entries(files)) {
+      await Bun.write(path.join(tempDir, name.replace("<global>", "../global-ignore")), content)
+    }
+    const plugin = await createPlugin(tempDir)
+    return plugin["tool.execute.before"] as any
+  }
+
+  test("loads other AI ignore formats by default", async () => {
+    const hook = await createProject({
+      ".aiignore": "a.txt\n",
+      ".aiexclude": "b.txt\n",
+      ".cursorignore": "c.txt\n",
+      "sub/.codeiumignore": "d.txt\n"
+    })
+
+    for (const file of ["a.txt", "b.txt", "c.txt", "sub/d.txt"]) {
+      expect(callHook(hook, "read", { filePath: file })).rejects.toBeInstanceOf(AccessDeniedError)
+    }
+    expect(callHook(hook, "read", { filePath: "d.txt" })).resolves.toBeUndefined()
+  })
+
+  test(".ignore takes precedence over other formats in the same directory", async () => {
+    const hook = await createProject({
+      ".aiignore": "*.json\n",
+      ".ignore": "!package.json\n"
+    })
+
+    expect(callHook(hook, "read", { filePath: "package.json" })).resolves.toBeUndefined()
+    expect(callHook(hook, "read", { filePath: "data.json" })).rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("deeper files take precedence regardless of format", async () => {
+    const hook = await createProject({
+      ".ignore": "*.json\n",
+      "pkg/.cursorignore": "!*.json\n"
+    })
+
+    expect(callHook(hook, "read", { filePath: "pkg/data.json" })).resolves.toBeUndefined()
+  })
+
+  test(".gitignore is opt-in", async () => {
+    const defaultHook = await createProject({ ".gitignore": "dist/\n" })
+    expect(callHook(defaultHook, "list", { path: "dist" })).resolves.toBeUndefined()
+
+    const optInHook = await createProject({
+      ".gitignore": "dist/\n",
+      ".opencode/ignore.json": JSON.stringify({ ignoreFiles: [".gitignore", ".ignore"] })
+    })
+    expect(callHook(optInHook, "list", { path: "dist" })).rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("configured list replaces default formats", async () => {
+    const hook = await createProject({
+      ".aiignore": "a.txt\n",
+      ".ignore": "b.txt\n",
+      ".opencode/ignore.json": JSON.stringify({ ignoreFiles: [".ignore"] })
+    })
+
+    expect(callHook(hook, "read", { filePath: "a.txt" })).resolves.toBeUndefined()
+    expect(callHook(hook, "read", { filePath: "b.txt" })).rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("global user file applies with lowest precedence", async () => {
+    const hook = await createProject({
+      "<global>": "*.pem\nnotes/\n",
+      ".ignore": "!public.pem\n",
+      ".opencode/ignore.json": JSON.stringify({ globalIgnoreFile: "../global-ignore" })
+    })
+
+    expect(callHook(hook, "read", { filePath: "server.pem" })).rejects.toBeInstanceOf(AccessDeniedError)
+    expect(callHook(hook, "list", { path: "notes" })).rejects.toBeInstanceOf(AccessDeniedError)
+    expect(callHook(hook, "read", { filePath: "public.pem" })).resolves.toBeUndefined()
+  })
+
+  test("global user file defaults to $XDG_CONFIG_HOME/opencode/ignore", async () => {
+    const configHome = "/tmp/test-xdg-config-" + Date.now()
+    await Bun.write(configHome + "/opencode/ignore", "personal.txt\n")
+
+    const previous = process.env.XDG_CONFIG_HOME
+    process.env.XDG_CONFIG_HOME = configHome
+    try {
+      const hook = await createProject({})
+      expect(callHook(hook, "read", { filePath: "personal.txt" })).rejects.toBeInstanceOf(AccessDeniedError)
+
+      const disabledHook = await createProject({ ".opencode/ignore.json": JSON.stringify({ globalIgnoreFile: false }) })
+      expect(callHook(disabledHook, "read", { filePath: "personal.txt" })).resolves.toBeUndefined()
+    } finally {
+      if (previous === undefined) delete process.env.XDG_CONFIG_HOME
+      else process.env.XDG_CONFIG_HOME = previous
+    }
+  })
+
+  test("rejects invalid ignore file names", async () => {
+    expect(createProject({ ".opencode/ignore.json": JSON.stringify({ ignoreFiles: ["sub/.ignore"] }) }))
+      .rejects.toThrow(/ignoreFiles/)
+  })
+})
+
+describe("Hierarchical Ignore Files", () => {
+  let hook: any
+  let afterHook: any
+
+  beforeAll(async () => {
+    const tempDir = "/tmp/test-nested-ignore-" + Date.now()
+
+    await Bun.write(tempDir + "/.ignore", "*.secret\n/packages/api/build/\n")
+    await Bun.write(tempDir + "/packages/api/.ignore", "fixtures/**\n!keep.secret\n/local.txt\n")
+    await Bun.write(tempDir + "/packages/api/build/.ignore", "!*\n")
+    await Bun.write(tempDir + "/packages/web/.ignore", "*.txt\n")
+
+    const plugin = await createPlugin(tempDir)
+    hook = plugin["tool.execute.before"]
+    afterHook = plugin["tool.execute.after"]
+  })
+
+  test("applies root rules to nested paths", async () => {
+    expect(callHook(hook, "read", { filePath: "packages/web/app.secret" }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("applies nested rules relative to their directory", async () => {
+    expect(callHook(hook, "read", { filePath: "packages/api/fixtures/data.json" }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+    expect(callHook(hook, "read", { filePath: "packages/api/local.txt" }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+
+    // Anchored pattern only matches next to the nested .ignore file
+    expect(callHook(hook, "read", { filePath: "packages/api/src/local.txt" }))
+      .resolves.toBeUndefined()
+    expect(callHook(hook, "read", { filePath: "fixtures/data.json" }))
+      .resolves.toBeUndefined()
+  })
+
+  test("nested rules do not leak into sibling directories", async () => {
+    expect(callHook(hook, "read", { filePath: "packages/web/notes.txt" }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+    expect(callHook(hook, "read", { filePath: "packages/api/notes.txt" }))
+      .resolves.toBeUndefined()
+  })
+
+  test("deeper negation overrides shallower rule", async () => {
+    expect(callHook(hook, "read", { filePath: "packages/api/keep.secret" }))
+      .resolves.toBeUndefined()
+    expect(callHook(hook, "read", { filePath: "packages/web/keep.secret" }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("files inside an excluded directory cannot be re-included", async () => {
+    expect(callHook(hook, "list", { path: "packages/api/build" }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+    expect(callHook(hook, "read", { filePath: "packages/api/build/out.js" }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("filters glob and grep results using nested rules", async () => {
+    const globbed = await afterOutput(afterHook,
+      { tool: "glob", sessionID: "test", callID: "test" },
+      { args: { pattern: "**/*" }, output: { files: [
+        "packages/api/src/index.ts",
+        "packages/api/fixtures/data.json",
+        "packages/api/keep.secret",
+        "packages/web/notes.txt"
+      ] } }
+    )
+    expect(globbed.files).toEqual(["packages/api/src/index.ts", "packages/api/keep.secret"])
+
+    const grepped = await afterOutput(afterHook,
+      { tool: "grep", sessionID: "test", callID: "test" },
+      { args: { pattern: ".*" }, output: { matches: [
+        { file: "packages/web/index.ts", line: 1, match: "export" },
+        { file: "packages/web/notes.txt", line: 1, match: "note" }
+      ] } }
+    )
+    expect(grepped.matches).toHaveLength(1)
+    expect(grepped.matches[0].file).toBe("packages/web/index.ts")
+  })
+})
+
+describe("Rule Caching and Hot Reload", () => {
+  test("reloads rules when .ignore changes", async () => {
+    const tempDir = "/tmp/test-reload-ignore-" + Date.now()
+    await Bun.write(tempDir + "/.ignore", "first.txt\n")
+
+    const plugin = await createPlugin(tempDir)
+    const hook = plugin["tool.execute.before"]!
+
+    await expect(callHook(hook, "read", { filePath: "first.txt" })).rejects.toBeInstanceOf(AccessDeniedError)
+    await expect(callHook(hook, "read", { filePath: "second.txt" })).resolves.toBeUndefined()
+
+    await Bun.write(tempDir + "/.ignore", "second.txt\n# changed\n")
+
+    await expect(callHook(hook, "read", { filePath: "first.txt" })).resolves.toBeUndefined()
+    await expect(callHook(hook, "read", { filePath: "second.txt" })).rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("picks up .ignore files created after the first check", async () => {
+    const tempDir = "/tmp/test-reload-new-ignore-" + Date.now()
+
+    const plugin = await createPlugin(tempDir)
+    const hook = plugin["tool.execute.before"]!
+
+    await expect(callHook(hook, "read", { filePath: "nested/blocked.txt" })).resolves.toBeUndefined()
+
+    await Bun.write(tempDir + "/nested/.ignore", "blocked.txt\n")
+
+    await expect(callHook(hook, "read", { filePath: "nested/blocked.txt" })).rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("benchmark: filters a 50k-entry glob result", async () => {
+    const plugin = await createPlugin()
+    const afterHook = plugin["tool.execute.after"]!
+
+    const directories = ["src", "certs", "public", "config/production", "logs", "sensitive-data"]
+    const files = Array.from({ length: 50_000 }, (_, i) =>
+      `${directories[i % directories.length]}/file-${i}.${i % 4 === 0 ? "key" : "ts"}`
+    )
+
+    const run = async () => {
+      const start = performance.now()
+      const filtered: any = await afterOutput(afterHook,
+        { tool: "glob", sessionID: "test", callID: "test" },
+        { args: { pattern: "**/*" }, output: { files } } as any
+      )
+      return { filtered, elapsed: performance.now() - start }
+    }
+
+    const cold = await run()
+    const warm = await run()
+
+    // Everything in public survives (negation), plus non-.key files in src and logs
+    const expected = files.filter(file =>
+      file.startsWith("public/") || (/^(src|logs)\//.test(file) && !file.endsWith(".key"))
+    )
+    expect(cold.filtered.files).toEqual(expected)
+    expect(warm.filtered.files).toEqual(expected)
+
+    expect(cold.elapsed).toBeLessThan(5000)
+  }, 20_000)
+})
+
+describe("Symlink Resolution", () => {
+  let hook: any
+  let afterHook: any
+
+  beforeAll(async () => {
+    const tempDir = "/tmp/test-symlink-ignore-" + Date.now()
+    const outsideDir = tempDir + "-outside"
+
+    await Bun.write(tempDir + "/.ignore", "/sensitive/**\n")
+    await Bun.write(tempDir + "/sensitive/secrets.json", "{}")
+    await Bun.write(tempDir + "/docs/guide.md", "# Guide")
+    await Bun.write(outsideDir + "/.env", "SECRET=1")
+    await mkdir(tempDir + "/src", { recursive: true })
+
+    await symlink("../sensitive/secrets.json", tempDir + "/src/cfg.json")
+    await symlink("../docs/guide.md", tempDir + "/src/guide.md")
+    await symlink("sensitive", tempDir + "/linked")
+    await symlink(outsideDir + "/.env", tempDir + "/src/outside.env")
+    await symlink("../sensitive/not-yet.json", tempDir + "/src/dangling.json")
+    await symlink("loop-b", tempDir + "/loop-a")
+    await symlink("loop-a", tempDir + "/loop-b")
+
+    const plugin = await createPlugin(tempDir)
+    hook = plugin["tool.execute.before"]
+    afterHook = plugin["tool.execute.after"]
+  })
+
+  test("blocks file symlinks pointing to blocked files", async () => {
+    expect(callHook(hook, "read", { filePath: "src/cfg.json" }))
+      .rejects.toThrow(/Access denied.*src\/cfg\.json/)
+    expect(callHook(hook, "edit", { filePath: "src/cfg.json" }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("blocks paths through symlinked directories", async () => {
+    expect(callHook(hook, "read", { filePath: "linked/secrets.json" }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("blocks new files under symlinked blocked directories", async () => {
+    expect(callHook(hook, "write", { filePath: "linked/new-secret.json" }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("blocks writes through dangling symlinks", async () => {
+    expect(callHook(hook, "write", { filePath: "src/dangling.json" }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("terminates on symlink loops", async () => {
+    expect(callHook(hook, "read", { filePath: "loop-a/file.txt" })).resolves.toBeUndefined()
+  })
+
+  test("blocks symlinks pointing outside project root", async () => {
+    expect(callHook(hook, "read", { filePath: "src/outside.env" }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("allows symlinks pointing to allowed files", async () => {
+    expect(callHook(hook, "read", { filePath: "src/guide.md" })).resolves.toBeUndefined()
+    expect(callHook(hook, "write", { filePath: "src/new-file.ts" })).resolves.toBeUndefined()
+  })
+
+  test("blocks symlinks in bash commands", async () => {
+    expect(callHook(hook, "bash", { command: "cat src/cfg.json" })).rejects.toBeInstanceOf(AccessDeniedError)
+    expect(callHook(hook, "bash", { command: "grep -r key linked" })).rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("filters symlinks from glob and grep results", async () => {
+    const globbed = await afterOutput(afterHook,
+      { tool: "glob", sessionID: "test", callID: "test" },
+      { args: { pattern: "**/*" }, output: { files: ["src/cfg.json", "src/guide.md", "linked/secrets.json", "src/outside.env"] } }
+    )
+    expect(globbed.files).toEqual(["src/guide.md"])
+
+    const grepped = await afterOutput(afterHook,
+      { tool: "grep", sessionID: "test", callID: "test" },
+      { args: { pattern: ".*" }, output: { matches: [
+        { file: "src/cfg.json", line: 1, match: "{}" },
+        { file: "src/guide.md", line: 1, match: "# Guide" }
+      ] } }
+    )
+    expect(grepped.matches).toHaveLength(1)
+    expect(grepped.matches[0].file).toBe("src/guide.md")
+  })
+})
+
+describe("Outside Root Policy", () => {
+  async function createProject(config?: object) {
+    const tempDir = "/tmp/test-outside-root-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+    await Bun.write(tempDir + "/project/.ignore", "*.key\n")
+    await Bun.write(tempDir + "/shared/lib.ts", "export {}")
+    if (config) await Bun.write(tempDir + "/project/.opencode/ignore.json", JSON.stringify(config))
+
+    const plugin = await createPlugin(tempDir + "/project")
+    return { tempDir, hook: plugin["tool.execute.before"] as any, afterHook: plugin["tool.execute.after"] as any }
+  }
+
+  test("denies outside paths by default", async () => {
+    const { tempDir, hook } = await createProject()
+
+    expect(callHook(hook, "read", { filePath: "../other-repo/.env" }))
+      .rejects.toThrow(/Access denied: \.\.\/other-repo\/\.env is outside the project root/)
+    expect(callHook(hook, "read", { filePath: tempDir + "/shared/lib.ts" }))
+      .rejects.toMatchObject({ code: "outside-root" })
+    expect(callHook(hook, "list", { path: "/home" }))
+      .rejects.toMatchObject({ code: "outside-root" })
+  })
+
+  test("does not take the text after an expansion for an outside path", async () => {
+    const { hook } = await createProject()
+
+    await expect(callHook(hook, "bash", { command: `cat "$PWD/README.md"` })).resolves.toBeUndefined()
+    await expect(callHook(hook, "bash", { command: `echo "$HOME/notes"` })).resolves.toBeUndefined()
+    await expect(callHook(hook, "bash", { command: "ls ${DIR}/src" })).resolves.toBeUndefined()
+  })
+
+  test("allows outside paths with allow policy", async () => {
+    const { hook } = await createProject({ outsideRoot: { policy: "allow" } })
+
+    expect(callHook(hook, "read", { filePath: "../other-repo/.env" })).resolves.toBeUndefined()
+    expect(callHook(hook, "bash", { command: "cat ../shared/lib.ts" })).resolves.toBeUndefined()
+  })
+
+  test("allows only listed directories with their own patterns", async () => {
+    const { hook } = await createProject({
+      outsideRoot: { policy: "listed", directories: [{ path: "../shared", patterns: ["*.env", "/private/"] }] }
+    })
+
+    expect(callHook(hook, "read", { filePath: "../shared/lib.ts" })).resolves.toBeUndefined()
+    expect(callHook(hook, "list", { path: "../shared" })).resolves.toBeUndefined()
+    expect(callHook(hook, "read", { filePath: "../shared/prod.env" }))
+      .rejects.toThrow(/Access denied.*blocked by ignore file/)
+    expect(callHook(hook, "list", { path: "../shared/private" }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+    expect(callHook(hook, "read", { filePath: "../other-repo/lib.ts" }))
+      .rejects.toMatchObject({ code: "outside-root" })
+    expect(callHook(hook, "bash", { command: "grep -r secret ../shared/private" }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("applies policy to glob and grep results", async () => {
+    const { afterHook } = await createProject({
+      outsideRoot: { policy: "listed", directories: [{ path: "../shared", patterns: ["*.env"] }] }
+    })
+
+    const globbed = await afterOutput(afterHook,
+      { tool: "glob", sessionID: "test", callID: "test" },
+      { args: { pattern: "**/*" }, output: { files: ["src/app.ts", "../shared/lib.ts", "../shared/prod.env", "../other/x.ts", "server.key"] } }
+    )
+    expect(globbed.files).toEqual(["src/app.ts", "../shared/lib.ts"])
+
+    const grepped = await afterOutput(afterHook,
+      { tool: "grep", sessionID: "test", callID: "test" },
+      { args: { pattern: ".*" }, output: { matches: [
+        { file: "../shared/lib.ts", line: 1, match: "export" },
+        { file: "/etc/hosts", line: 1, match: "localhost" }
+      ] } }
+    )
+    expect(grepped.matches).toHaveLength(1)
+    expect(grepped.matches[0].file).toBe("../shared/lib.ts")
+  })
+
+  test("rejects unknown policy", async () => {
+    expect(createProject({ outsideRoot: { policy: "sometimes" } })).rejects.toThrow(/outsideRoot\.policy/)
+  })
+})
+
+describe("Read-only and No-read Rules", () => {
+  let hook: any
+  let afterHook: any
+
+  beforeAll(async () => {
+    const tempDir = "/tmp/test-rule-sections-" + Date.now()
+
+    await Bun.write(tempDir + "/.ignore", [
+      "*.key",
+      "# @read-only",
+      "vendor/**",
+      "!vendor/*.md",
+      "bun.lock",
+      "# @no-read",
+      "/scratch/",
+      "# @block",
+      "*.pem"
+    ].join("\n"))
+
+    const plugin = await createPlugin(tempDir)
+    hook = plugin["tool.execute.before"]
+    afterHook = plugin["tool.execute.after"]
+  })
+
+  test("rules before any section block read and write", async () => {
+    expect(callHook(hook, "read", { filePath: "server.key" })).rejects.toMatchObject({ code: "blocked" })
+    expect(callHook(hook, "write", { filePath: "server.key" })).rejects.toMatchObject({ code: "blocked" })
+    expect(callHook(hook, "edit", { filePath: "certs/ca.pem" })).rejects.toMatchObject({ code: "blocked" })
+  })
+
+  test("read-only rules allow reading but deny writing", async () => {
+    expect(callHook(hook, "read", { filePath: "vendor/lib/index.js" })).resolves.toBeUndefined()
+    expect(callHook(hook, "list", { path: "vendor" })).resolves.toBeUndefined()
+    expect(callHook(hook, "write", { filePath: "vendor/lib/index.js" }))
+      .rejects.toThrow(/Access denied: vendor\/lib\/index\.js is read-only by ignore file/)
+    expect(callHook(hook, "edit", { filePath: "bun.lock" })).rejects.toMatchObject({ code: "read-only" })
+  })
+
+  test("negation applies within its section", async () => {
+    expect(callHook(hook, "edit", { filePath: "vendor/README.md" })).resolves.toBeUndefined()
+  })
+
+  test("no-read rules allow writing but deny reading", async () => {
+    expect(callHook(hook, "write", { filePath: "scratch/out.txt" })).resolves.toBeUndefined()
+    expect(callHook(hook, "read", { filePath: "scratch/out.txt" })).rejects.toMatchObject({ code: "blocked" })
+    expect(callHook(hook, "list", { path: "scratch" })).rejects.toBeInstanceOf(AccessDeniedError)
+
+    const globbed = await afterOutput(afterHook,
+      { tool: "glob", sessionID: "test", callID: "test" },
+      { args: { pattern: "**/*" }, output: { files: ["scratch/out.txt", "vendor/lib/index.js"] } }
+    )
+    expect(globbed.files).toEqual(["vendor/lib/index.js"])
+  })
+
+  test("bash commands are checked by the access they need", async () => {
+    expect(callHook(hook, "bash", { command: "cat vendor/lib/index.js" })).resolves.toBeUndefined()
+    expect(callHook(hook, "bash", { command: "echo x > vendor/lib/index.js" })).rejects.toMatchObject({ code: "read-only" })
+    expect(callHook(hook, "bash", { command: "cp vendor/lib/index.js src/" })).resolves.toBeUndefined()
+    expect(callHook(hook, "bash", { command: "rm -rf vendor" })).rejects.toMatchObject({ code: "read-only" })
+    expect(callHook(hook, "bash", { command: "npm test > scratch/log.txt" })).resolves.toBeUndefined()
+    expect(callHook(hook, "bash", { command: "cat scratch/log.txt" })).rejects.toBeInstanceOf(AccessDeniedError)
+  })
+})
+
+describe("Audit Log", () => {
+  const previousDataHome = process.env.XDG_DATA_HOME
+
+  afterAll(() => {
+    if (previousDataHome === undefined) delete process.env.XDG_DATA_HOME
+    else process.env.XDG_DATA_HOME = previousDataHome
+  })
+
+  async function createProject(auditLog: unknown) {
+    const tempDir = "/tmp/test-audit-log-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+    process.env.XDG_DATA_HOME = tempDir + "/data"
+    await Bun.write(tempDir + "/.ignore", "*.key\n# @read-only\nvendor/**\n")
+    await Bun.write(tempDir + "/.opencode/ignore.json", JSON.stringify({ auditLog }))
+
+    const plugin = await createPlugin(tempDir)
+    return { tempDir, hook: plugin["tool.execute.before"] as any, afterHook: plugin["tool.execute.after"] as any }
+  }
+
+  async function readRecords(path: string) {
+    const text = await Bun.file(path).text()
+    return text.trim().split("\n").map(line => JSON.parse(line))
+  }
+
+  test("records denied tool calls outside the project", async () => {
+    const { tempDir, hook } = await createProject(true)
+
+    await expect(hook({ tool: "read", sessionID: "s1", callID: "c1" }, { args: { filePath: "certs/server.key" } }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+    await expect(hook({ tool: "bash", sessionID: "s1", callID: "c2" }, { args: { command: "rm -rf vendor/lib" } }))
+      .rejects.toMatchObject({ code: "read-only" })
+    await callHook(hook, "read", { filePath: "src/index.ts" })
+
+    const records = await readRecords(tempDir + "/data/opencode/ignore-audit.jsonl")
+    expect(records).toHaveLength(2)
+    expect(records[0]).toMatchObject({
+      projectRoot: tempDir,
+      sessionID: "s1",
+      callID: "c1",
+      tool: "read",
+      path: "certs/server.key",
+      normalizedPath: "certs/server.key",
+      decision: "denied",
+      reason: "blocked",
+      rule: { file: ".ignore", line: 1, pattern: "*.key" }
+    })
+    expect(Date.parse(records[0].timestamp)).not.toBeNaN()
+    expect(records[1]).toMatchObject({ tool: "bash", path: "vendor/lib", reason: "read-only", rule: { line: 3, pattern: "vendor/**" } })
+    expect(Bun.file(tempDir + "/.opencode/ignore-audit.jsonl").exists()).resolves.toBe(false)
+  })
+
+  test("records paths filtered from results", async () => {
+    const { tempDir, afterHook } = await createProject({ path: "logs/audit.jsonl" })
+
+    await afterHook(
+      { tool: "glob", sessionID: "s1", callID: "c3" },
+      { args: { pattern: "**/*" }, output: { files: ["src/app.ts", "server.key", "../outside.ts"] } }
+    )
+
+    const records = await readRecords(tempDir + "/logs/audit.jsonl")
+    expect(records.map(record => [record.path, record.decision, record.reason, record.rule?.pattern ?? null])).toEqual([
+      ["server.key", "filtered", "blocked", "*.key"],
+      ["../outside.ts", "filtered", "outside-root", null]
+    ])
+  })
+
+  test("is disabled by default", async () => {
+    const { tempDir, hook } = await createProject(undefined)
+
+    await expect(callHook(hook, "read", { filePath: "server.key" })).rejects.toBeInstanceOf(AccessDeniedError)
+    expect(Bun.file(tempDir + "/data/opencode/ignore-audit.jsonl").exists()).resolves.toBe(false)
+  })
+
+  test("rejects invalid settings", async () => {
+    expect(createProject({ maxSize: -1 })).rejects.toThrow(/auditLog/)
+  })
+})
+
+describe("Deciding Rule", () => {
+  let tempDir: string
+  let hook: any
+
+  beforeAll(async () => {
+    tempDir = "/tmp/test-deciding-rule-" + Date.now()
+
+    await Bun.write(tempDir + "/.ignore", "# secrets\n*.properties\n!src/*.properties\n")
+    await Bun.write(tempDir + "/src/.ignore", "\n*.runtime.properties\n")
+
+    const plugin = await createPlugin(tempDir)
+    hook = plugin["tool.execute.before"]
+  })
+
+  test("names the file, line and pattern in the denial message", async () => {
+    expect(callHook(hook, "read", { filePath: "src/app.runtime.properties" }))
+      .rejects.toThrow("Access denied: src/app.runtime.properties blocked by ignore file (src/.ignore:2: *.runtime.properties).")
+    expect(callHook(hook, "read", { filePath: "config/db.properties" }))
+      .rejects.toThrow(/\(\.ignore:2: \*\.properties\)/)
+  })
+
+  test("throws a structured error", async () => {
+    expect(callHook(hook, "read", { filePath: "config/db.properties" })).rejects.toMatchObject({
+      name: "AccessDeniedError",
+      code: "blocked",
+      tool: "read",
+      path: "config/db.properties",
+      normalizedPath: "config/db.properties",
+      rule: { file: ".ignore", line: 2, pattern: "*.properties", negated: false }
+    })
+  })
+
+  test("logs the negation that re-allows a path in debug mode", async () => {
+    const messages: any[] = []
+    const client = { app: { log: async (options: any) => { messages.push(options.body) } } }
+
+    process.env.OPENCODE_IGNORE_DEBUG = "1"
+    try {
+      const plugin = await OpenCodeIgnore({
+        project: {} as any,
+        client: client as any,
+        $: {} as any,
+        directory: tempDir,
+        worktree: tempDir,
+      })
+      await callHook(plugin["tool.execute.before"], "read", { filePath: "src/app.properties" })
+    } finally {
+      delete process.env.OPENCODE_IGNORE_DEBUG
+    }
+
+    const debugMessages = messages.filter(message => message.level === "debug")
+    expect(debugMessages).toHaveLength(1)
+    expect(debugMessages[0]).toMatchObject({
+      service: "opencode-ignore",
+      level: "debug",
+      message: "read src/app.properties: allowed by .ignore:3: !src/*.properties",
+      extra: { rule: { file: ".ignore", line: 3, negated: true } }
+    })
+  })
+})
+
+describe("Redaction", () => {
+  let tempDir: string
+  let hook: any
+  let afterHook: any
+
+  beforeAll(async () => {
+    tempDir = "/tmp/test-redaction-" + Date.now()
+
+    await Bun.write(tempDir + "/.ignore", "*.key\n# @redact\nconfig/*.env\napplication.properties\n")
+
+    const plugin = await createPlugin(tempDir)
+    hook = plugin["tool.execute.before"]
+    afterHook = plugin["tool.execute.after"]
+  })
+
+  test("reads redacted files with secret values masked", async () => {
+    const input = { tool: "read", sessionID: "test", callID: "redact-1" }
+    await hook(input, { args: { filePath: "config/app.env" } })
+
+    const context = {
+      title: "config/app.env",
+      output: "<file>\n00001| # Production\n00002| DB_PASSWORD=hunter2\n</file>",
+      metadata: { preview: "# Production\nDB_PASSWORD=hunter2" }
+    }
+    const output = await afterOutput(afterHook, input, context)
+
+    expect(output).toBe("<file>\n00001| # Production\n00002| DB_PASSWORD=[REDACTED]\n</file>")
+    expect(context.output).toBe(output)
+    expect(context.metadata.preview).toBe("# Production\nDB_PASSWORD=[REDACTED]")
+  })
+
+  test("leaves other read output unchanged", async () => {
+    const input = { tool: "read", sessionID: "test", callID: "redact-2" }
+    await hook(input, { args: { filePath: "src/app.env" } })
+
+    expect(await afterOutput(afterHook, input, { output: "00001| DEBUG=true" })).toBe("00001| DEBUG=true")
+  })
+
+  test("refuses edits so placeholders are never written back", async () => {
+    expect(callHook(hook, "edit", { filePath: "application.properties" }))
+      .rejects.toThrow(/application\.properties is redacted by ignore file \(\.ignore:4: application\.properties\)/)
+    expect(callHook(hook, "write", { filePath: "config/app.env" })).rejects.toMatchObject({ code: "redacted" })
+  })
+
+  test("denies bash access and drops grep matches of redacted files", async () => {
+    expect(callHook(hook, "bash", { command: "cat config/app.env" })).rejects.toMatchObject({ code: "redacted" })
+
+    const grepped = await afterOutput(afterHook,
+      { tool: "grep", sessionID: "test", callID: "redact-3" },
+      { args: { pattern: "PASSWORD" }, output: { matches: [
+        { file: "config/app.env", line: 2, match: "DB_PASSWORD=hunter2" },
+        { file: "src/db.ts", line: 1, match: "process.env.DB_PASSWORD" }
+      ] } }
+    )
+    expect(grepped.matches.map((match: any) => match.file)).toEqual(["src/db.ts"])
+
+    const globbed = await afterOutput(afterHook,
+      { tool: "glob", sessionID: "test", callID: "redact-4" },
+      { args: { pattern: "**/*" }, output: { files: ["config/app.env", "server.key"] } }
+    )
+    expect(globbed.files).toEqual(["config/app.env"])
+  })
+})
+
+describe("Prompt Rules", () => {
+  let tempDir: string
+  let plugin: any
+  const toasts: string[] = []
+  const previousDataHome = process.env.XDG_DATA_HOME
+
+  beforeAll(async () => {
+    tempDir = "/tmp/test-prompt-" + Date.now()
+    process.env.XDG_DATA_HOME = tempDir + "/data"
+    await Bun.write(tempDir + "/project/.ignore", "*.key\n# @prompt\nconfig/staging.json\ndeploy/\n")
+
+    const client = {
+      tui: { showToast: async ({ body }: any) => { toasts.push(body.message) } },
+      session: { get: async ({ path: { id } }: any) => ({ data: id === "sub" ? { id, parentID: "p1" } : { id } }) }
+    }
+    plugin = await OpenCodeIgnore({
+      project: {} as any,
+      client: client as any,
+      $: {} as any,
+      directory: tempDir + "/project",
+      worktree: tempDir + "/project"
+    })
+  })
+
+  afterAll(() => {
+    if (previousDataHome === undefined) delete process.env.XDG_DATA_HOME
+    else process.env.XDG_DATA_HOME = previousDataHome
+  })
+
+  function call(sessionID: string, tool: string, args: any) {
+    return plugin["tool.execute.before"]({ tool, sessionID, callID: "test" }, { args })
+  }
+
+  function reply(sessionID: string, text: string) {
+    return plugin["chat.message"]({}, {
+      message: { id: "m", sessionID, role: "user" },
+      parts: [{ id: "p", sessionID, messageID: "m", type: "text", text }]
+    })
+  }
+
+  test("asks the user before access", async () => {
+    await expect(call("p1", "read", { filePath: "config/staging.json" }))
+      .rejects.toThrow(/config\/staging\.json needs the user's approval by ignore file \(\.ignore:3: config\/staging\.json\)/)
+    await expect(call("p1", "read", { filePath: "config/staging.json" })).rejects.toThrow(/allow once/)
+
+    expect(toasts).toEqual(['The agent asks to access config/staging.json. Reply "allow once", "allow session", "allow always" or "deny".'])
+  })
+
+  test("allows once", async () => {
+    await expect(call("p2", "edit", { filePath: "deploy/app.yaml" })).rejects.toMatchObject({ code: "prompt" })
+    await reply("p2", "allow once")
+
+    await expect(call("p2", "edit", { filePath: "deploy/app.yaml" })).resolves.toBeUndefined()
+    await expect(call("p2", "edit", { filePath: "deploy/app.yaml" })).rejects.toMatchObject({ code: "prompt" })
+  })
+
+  test("remembers answers for the rest of the session", async () => {
+    await expect(call("p3", "bash", { command: "cat config/staging.json" })).rejects.toMatchObject({ code: "prompt" })
+    await reply("p3", "Allow session")
+
+    await expect(call("p3", "bash", { command: "cat config/staging.json" })).resolves.toBeUndefined()
+    await expect(call("p3", "read", { filePath: "config/staging.json" })).resolves.toBeUndefined()
+    await expect(call("p4", "read", { filePath: "config/staging.json" })).rejects.toMatchObject({ code: "prompt" })
+
+    await reply("p4", "deny")
+    await expect(call("p4", "read", { filePath: "config/staging.json" })).rejects.toMatchObject({ code: "blocked" })
+    await reply("p4", "allow session")
+    await expect(call("p4", "read", { filePath: "config/staging.json" })).rejects.toMatchObject({ code: "blocked" })
+  })
+
+  test("keeps allow-always answers outside the project", async () => {
+    await expect(call("p5", "read", { filePath: "deploy/prod.yaml" })).rejects.toMatchObject({ code: "prompt" })
+    await reply("p5", "allow always")
+
+    await expect(call("p6", "read", { filePath: "deploy/prod.yaml" })).resolves.toBeUndefined()
+    const stored = await Bun.file(tempDir + "/data/opencode/ignore-approvals.json").json()
+    expect(stored[tempDir + "/project"]).toEqual(["deploy/prod.yaml"])
+  })
+
+  test("ignores other messages and blocked files", async () => {
+    await expect(call("p7", "read", { filePath: "server.key" })).rejects.toMatchObject({ code: "blocked" })
+    await reply("p7", "allow session")
+    await expect(call("p7", "read", { filePath: "server.key" })).rejects.toMatchObject({ code: "blocked" })
+
+    await expect(call("p7", "read", { filePath: "deploy/a.yaml" })).rejects.toMatchObject({ code: "prompt" })
+    await reply("p7", "sure, go ahead")
+    await expect(call("p7", "read", { filePath: "deploy/a.yaml" })).rejects.toMatchObject({ code: "prompt" })
+  })
+
+  test("ignores replies in subagent sessions, which the parent agent writes", async () => {
+    await expect(call("sub", "read", { filePath: "deploy/b.yaml" })).rejects.toMatchObject({ code: "prompt" })
+    await reply("sub", "allow session")
+    await expect(call("sub", "read", { filePath: "deploy/b.yaml" })).rejects.toMatchObject({ code: "prompt" })
+  })
+})
+
+describe("Grants", () => {
+  let tempDir: string
+  let plugin: any
+  const toasts: string[] = []
+  const previousDataHome = process.env.XDG_DATA_HOME
+
+  beforeAll(async () => {
+    tempDir = "/tmp/test-grants-plugin-" + Date.now()
+    process.env.XDG_DATA_HOME = tempDir + "/data"
+    await Bun.write(tempDir + "/project/.ignore", "database/\n*.key\n")
+    await Bun.write(tempDir + "/project/.opencode/ignore.json", JSON.stringify({ auditLog: true }))
+
+    const client = {
+      tui: { showToast: async ({ body }: any) => { toasts.push(body.message) } },
+      session: { get: async ({ path: { id } }: any) => ({ data: id === "sub" ? { id, parentID: "g1" } : { id } }) }
+    }
+    plugin = await OpenCodeIgnore({
+      project: {} as any,
+      client: client as any,
+      $: {} as any,
+      directory: tempDir + "/project",
+      worktree: tempDir + "/project"
+    })
+  })
+
+  afterAll(() => {
+    if (previousDataHome === undefined) delete process.env.XDG_DATA_HOME
+    else process.env.XDG_DATA_HOME = previousDataHome
+  })
+
+  function call(sessionID: string, tool: string, args: any) {
+    return plugin["tool.execute.before"]({ tool, sessionID, callID: "grant-call" }, { args })
+  }
+
+  async function command(sessionID: string, text: string) {
+    const part = { id: "p", sessionID, messageID: "m", type: "text", text }
+    await plugin["chat.message"]({}, { message: { id: "m", sessionID, role: "user" }, parts: [part] })
+    return part.text
+  }
+
+  test("adds the slash commands to the configuration", async () => {
+    const config: any = { command: { "ignore-grants": { template: "custom" } } }
+    await plugin.config(config)
+
+    expect(config.command["ignore-grant"].template).toBe("opencode-ignore: grant $ARGUMENTS")
+    expect(config.command["ignore-revoke"].template).toBe("opencode-ignore: revoke $ARGUMENTS")
+    expect(config.command["ignore-grants"].template).toBe("custom")
+  })
+
+  test("grants a path for the session and tells the agent", async () => {
+    await expect(call("g1", "read", { filePath: "database/connection-string.txt" })).rejects.toMatchObject({ code: "blocked" })
+
+    const result = await command("g1", "opencode-ignore: grant database/connection-string.txt")
+    expect(result).toMatch(/^opencode-ignore: Granted access to database\/connection-string\.txt for this session \(grant \w{8}\)\.$/)
+    expect(toasts.at(-1)).toBe(result.slice("opencode-ignore: ".length))
+
+    await expect(call("g1", "read", { filePath: "database/connection-string.txt" })).resolves.toBeUndefined()
+    await expect(call("g1", "bash", { command: "cat database/connection-string.txt" })).resolves.toBeUndefined()
+    await expect(call("g1", "read", { filePath: "database/users.sql" })).rejects.toMatchObject({ code: "blocked" })
+    await expect(call("g2", "read", { filePath: "database/connection-string.txt" })).rejects.toMatchObject({ code: "blocked" })
+  })
+
+  test("records granted accesses in the audit log", async () => {
+    const text = await Bun.file(tempDir + "/data/opencode/ignore-audit.jsonl").text()
+    const granted = text.trim().split("\n").map(line => JSON.parse(line)).filter(record => record.decision === "granted")
+
+    expect(granted[0]).toMatchObject({
+      sessionID: "g1",
+      tool: "read",
+      path: "database/connection-string.txt",
+      reason: "blocked",
+      rule: { file: ".ignore", line: 1, pattern: "database/" },
+      grant: { pattern: "database/connection-string.txt" }
+    })
+  })
+
+  test("grants for a duration, lists and revokes", async () => {
+    const result = await command("g1", "opencode-ignore: grant *.key 2h")
+    expect(result).toMatch(/Granted access to \*\.key until \d{4}-/)
+    await expect(call("g3", "read", { filePath: "certs/server.key" })).resolves.toBeUndefined()
+
+    const listed = await command("g3", "opencode-ignore: grants")
+    expect(listed).toContain("database/connection-string.txt  session g1")
+    expect(listed).toMatch(/\*\.key  until /)
+
+    const id = /grant (\w{8})/.exec(result)![1]
+    expect(await command("g3", `opencode-ignore: revoke ${id}`)).toBe(`opencode-ignore: Revoked grant ${id} (*.key).`)
+    await expect(call("g3", "read", { filePath: "certs/server.key" })).rejects.toMatchObject({ code: "blocked" })
+    expect(await command("g3", `opencode-ignore: revoke ${id}`)).toBe(`opencode-ignore: No active grant ${id}.`)
+  })
+
+  test("reports invalid commands", async () => {
+    expect(await command("g1", "opencode-ignore: grant")).toMatch(/Grant command failed: Grant pattern must not be empty/)
+    expect(await command("g1", "opencode-ignore: grant a.txt soon")).toMatch(/Usage: \/ignore-grant/)
+  })
+
+  test("ignores commands in subagent sessions and revokes grants of deleted sessions", async () => {
+    const text = "opencode-ignore: grant *.key"
+    expect(await command("sub", text)).toBe(text)
+    await expect(call("sub", "read", { filePath: "certs/server.key" })).rejects.toMatchObject({ code: "blocked" })
+
+    await plugin.event({ event: { type: "session.deleted", properties: { info: { id: "g1" } } } })
+    await expect(call("g1", "read", { filePath: "database/connection-string.txt" })).rejects.toMatchObject({ code: "blocked" })
+  })
+})
+
+describe("Custom Tools", () => {
+  let tempDir: string
+  let hook: any
+  let afterHook: any
+
+  beforeAll(async () => {
+    tempDir = "/tmp/test-custom-tools-" + Date.now()
+    await Bun.write(tempDir + "/.ignore", "*.key\nsecrets/\n# @read-only\nvendor/**\n# @redact\n.env\n")
+    await Bun.write(tempDir + "/.opencode/ignore.json", JSON.stringify({
+      tools: {
+        db_dump: { paths: [{ arg: "outputFile", operation: "write" }] },
+        "filesystem_*": {
+          paths: [{ arg: "source" }, { arg: "destination", operation: "write" }, { arg: "$.files[*].path" }]
+        },
+        filesystem_search: { paths: [{ arg: "root", directory: true }], output: "glob" }
+      }
+    }))
     const plugin = await createPlugin(tempDir)
-    const hook = plugin["tool.execute.before"]!
-    
-    // Should not throw even though no ignore file exists
-    expect(callHook(hook, "read", { filePath: "secrets.json" })).resolves.toBeUndefined()
+    hook = plugin["tool.execute.before"]
+    afterHook = plugin["tool.execute.after"]
   })
 
-  test("project root (.) is always allowed", async () => {
-    const plugin = await createPlugin()
-    const hook = plugin["tool.execute.before"]!
-    
-    // All directory operations on root should be allowed
-    expect(callHook(hook, "list", { path: "." })).resolves.toBeUndefined()
-    expect(callHook(hook, "glob", { path: "." })).resolves.toBeUndefined()
-    expect(callHook(hook, "grep", { path: "." })).resolves.toBeUndefined()
+  test("checks configured arguments with their operation", async () => {
+    await expect(callHook(hook, "db_dump", { query: "x", outputFile: "dumps/db.sql" })).resolves.toBeUndefined()
+    await expect(callHook(hook, "db_dump", { outputFile: "vendor/db.sql" })).rejects.toMatchObject({ code: "read-only" })
+    await expect(callHook(hook, "filesystem_copy", { source: "vendor/lib.js", destination: "src/lib.js" })).resolves.toBeUndefined()
+    await expect(callHook(hook, "filesystem_copy", { source: "certs/server.key", destination: "src/x" }))
+      .rejects.toThrow(/Access denied.*server\.key/)
+  })
+
+  test("matches tool name patterns and JSON paths", async () => {
+    await expect(callHook(hook, "filesystem_read_multiple", { files: [{ path: "a.ts" }, { path: "id.key" }] }))
+      .rejects.toThrow(/Access denied.*id\.key/)
+    await expect(callHook(hook, "filesystem_search", { root: "secrets" })).rejects.toThrow(/Access denied.*secrets/)
+  })
+
+  test("denies reading redacted files through tools whose output is not masked", async () => {
+    await expect(callHook(hook, "filesystem_read", { source: ".env" })).rejects.toMatchObject({ code: "redacted" })
+  })
+
+  test("filters output in the configured format", async () => {
+    const filtered = await afterOutput(afterHook,
+      { tool: "filesystem_search", sessionID: "test", callID: "test" },
+      { output: `${tempDir}/src/app.ts\n${tempDir}/certs/server.key`, metadata: {} }
+    )
+    expect(filtered).toBe(`${tempDir}/src/app.ts`)
+  })
+
+  test("leaves unconfigured tools alone", async () => {
+    await expect(callHook(hook, "db_query", { outputFile: "server.key" })).resolves.toBeUndefined()
+    const output = { output: "server.key", metadata: {} }
+    expect(await afterOutput(afterHook, { tool: "db_dump", sessionID: "test", callID: "test" }, output)).toBe("server.key")
+  })
+
+  test("rejects invalid tool settings", async () => {
+    const dir = "/tmp/test-custom-tools-invalid-" + Date.now()
+    await Bun.write(dir + "/.opencode/ignore.json", JSON.stringify({ tools: { x: { paths: [{ arg: "$.a[" }] } } }))
+    await expect(createPlugin(dir)).rejects.toThrow(/tools\.x\.paths/)
   })
 })
 
-describe("Ignore File Loading", () => {
-  test("uses .ignore when available", async () => {
-    // Current project has .ignore, should block secrets.json
-    const plugin = await createPlugin()
-    const hook = plugin["tool.execute.before"]!
-    
-    expect(callHook(hook, "read", { filePath: "secrets.json" }))
-      .rejects.toThrow(/Access denied/)
+describe("Plugin Options", () => {
+  async function createProject(options: object) {
+    const dir = "/tmp/test-options-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+    await Bun.write(dir + "/.ignore", "*.key\nsecrets/\n")
+    await Bun.write(dir + "/.opencode/ignore.json", JSON.stringify(options))
+    return { dir, plugin: await createPlugin(dir) }
+  }
+
+  test("renders denial messages from configured templates", async () => {
+    const { plugin } = await createProject({ messages: { blocked: "{path} is off limits ({rule}); normalized {normalizedPath}" } })
+    await expect(callHook(plugin["tool.execute.before"], "read", { filePath: "./certs/a.key" }))
+      .rejects.toThrow("./certs/a.key is off limits (.ignore:1: *.key); normalized certs/a.key")
+    await expect(callHook(plugin["tool.execute.before"], "read", { filePath: "/etc/hosts" }))
+      .rejects.toMatchObject({ code: "outside-root" })
   })
 
-  test("loads .ignore file correctly", async () => {
-    const tempDir = "/tmp/test-ignore-" + Date.now()
-    
-    // Create temp dir with .ignore
-    await Bun.write(tempDir + "/.ignore", "blocked.txt\n")
-    
-    const plugin = await createPlugin(tempDir)
-    const hook = plugin["tool.execute.before"]!
-    
-    expect(callHook(hook, "read", { filePath: "blocked.txt" }))
-      .rejects.toThrow(/Access denied/)
-    expect(callHook(hook, "read", { filePath: "allowed.txt" }))
-      .resolves.toBeUndefined()
+  test("checks only the enforced native tools", async () => {
+    const { plugin } = await createProject({ enforcedTools: ["read", "write"], tools: { db_dump: { paths: [{ arg: "file" }] } } })
+    const hook = plugin["tool.execute.before"]
+
+    await expect(callHook(hook, "read", { filePath: "a.key" })).rejects.toBeInstanceOf(AccessDeniedError)
+    await expect(callHook(hook, "list", { path: "secrets" })).resolves.toBeUndefined()
+    await expect(callHook(hook, "bash", { command: "cat a.key" })).resolves.toBeUndefined()
+    await expect(callHook(hook, "db_dump", { file: "a.key" })).rejects.toBeInstanceOf(AccessDeniedError)
+
+    const output = { output: "a.key\nb.txt", metadata: {} }
+    const afterHook: any = plugin["tool.execute.after"]
+    expect(await afterOutput(afterHook, { tool: "glob", sessionID: "test", callID: "test" }, output)).toBe("a.key\nb.txt")
+  })
+
+  test("lets unverifiable calls and output through when failing open", async () => {
+    const { plugin } = await createProject({ failMode: "open" })
+    const hook = plugin["tool.execute.before"]
+
+    await expect(callHook(hook, "patch", { patchText: "just some text" })).resolves.toBeUndefined()
+    await expect(callHook(hook, "read", { filePath: "a.key" })).rejects.toBeInstanceOf(AccessDeniedError)
+
+    const afterHook: any = plugin["tool.execute.after"]
+    const output = { output: { unexpected: true }, metadata: {} }
+    expect(await afterOutput(afterHook, { tool: "glob", sessionID: "test", callID: "test" }, output)).toEqual({ unexpected: true })
+  })
+
+  test("renders parse failures with the tool and a hint", async () => {
+    const { plugin } = await createProject({ messages: { "parse-failure": "{tool}: cannot check this call. {hint}" } })
+    await expect(callHook(plugin["tool.execute.before"], "patch", { patchText: "just some text" }))
+      .rejects.toThrow(`patch: cannot check this call. Use a unified diff or "*** Begin Patch" text.`)
+  })
+
+  test("renders withheld output from the configured template", async () => {
+    const { dir, plugin } = await createProject({ messages: { withheld: "{tool}: output hidden" } })
+    await Bun.write(dir + "/.ignore", "*.key\n# @redact\n.env\n")
+    const afterHook: any = plugin["tool.execute.after"]
+
+    const unparsed = { output: "Error: unexpected output", metadata: {} }
+    expect(await afterOutput(afterHook, { tool: "glob", sessionID: "test", callID: "glob-call" }, unparsed)).toBe("glob: output hidden")
+
+    await expect(callHook(plugin["tool.execute.before"], "read", { filePath: ".env" })).resolves.toBeUndefined()
+    const binary = { output: { bytes: [1, 2] }, metadata: {} }
+    expect(await afterOutput(afterHook, { tool: "read", sessionID: "test", callID: "test" }, binary)).toBe("read: output hidden")
+  })
+
+  test("denies unverifiable bash commands with strictBash unless the environment overrides it", async () => {
+    const { plugin } = await createProject({ strictBash: true })
+    await expect(callHook(plugin["tool.execute.before"], "bash", { command: "cat $FILE" }))
+      .rejects.toMatchObject({ code: "parse-failure", tool: "bash" })
+
+    process.env.OPENCODE_IGNORE_STRICT_BASH = "0"
+    try {
+      const { plugin: lenient } = await createProject({ strictBash: true })
+      await expect(callHook(lenient["tool.execute.before"], "bash", { command: "cat $FILE" })).resolves.toBeUndefined()
+    } finally {
+      delete process.env.OPENCODE_IGNORE_STRICT_BASH
+    }
+  })
+
+  test("denies path arguments that cannot be checked", async () => {
+    const { plugin } = await createProject({})
+    const hook = plugin["tool.execute.before"]
+
+    await expect(callHook(hook, "read", { filePath: "a.key\0.txt" })).rejects.toMatchObject({ code: "invalid-path", tool: "read" })
+    await expect(callHook(hook, "write", { filePath: 42 })).rejects.toMatchObject({ code: "invalid-path", path: "42" })
+  })
+
+  test("rejects invalid options with the setting at fault", async () => {
+    const invalid: [object, RegExp][] = [
+      [{ ignorefiles: [".ignore"] }, /unknown setting ignorefiles/],
+      [{ profiles: { plan: { auditLog: true } } }, /unknown setting profiles\.plan\.auditLog/],
+      [{ enforcedTools: ["read", "cat"] }, /enforcedTools must be a list of tools among read/],
+      [{ failMode: "lenient" }, /failMode must be one of closed, open/],
+      [{ messages: { denied: "no" } }, /unknown message messages\.denied/],
+      [{ messages: { blocked: "{file} is blocked" } }, /messages\.blocked uses unknown placeholder \{file\}/],
+      [{ outsideRoot: "allow" }, /outsideRoot must be \{policy, directories\}/],
+      [{ outsideRoot: { policy: "listed", directories: "~/x" } }, /outsideRoot\.directories must be a list/],
+      [{ outsideRoot: { policy: "listed", directories: [{ path: 5 }] } }, /outsideRoot\.directories must be a list/],
+      [{ outsideRoot: { policy: "listed", directories: [{ path: "~/x", patterns: "*.key" }] } }, /outsideRoot\.directories must be a list/],
+      [{ profiles: { plan: { outsideRoot: { policy: "listed", directories: [{ dir: "~/x" }] } } } }, /profiles\.plan\.outsideRoot\.directories/],
+      [{ auditLog: { maxsize: 5 } }, /unknown setting auditLog\.maxsize/],
+      [{ strictBash: "1" }, /strictBash must be true or false/],
+      [{ auditLog: [] }, /auditLog must be true, false or \{path, maxSize, maxFiles\}/],
+      [{ tools: { db_dump: { path: [{ arg: "outputFile" }] } } }, /unknown setting tools\.db_dump\.path$/],
+      [{ tools: { db_dump: { paths: [{ arg: "outputFile", operaton: "write" }] } } }, /unknown setting tools\.db_dump\.paths\[0\]\.operaton/]
+    ]
+    for (const [options, error] of invalid) {
+      await expect(createProject(options)).rejects.toThrow(error)
+    }
+  })
+
+  test("rejects a configuration file that is not valid JSON, naming the file", async () => {
+    const dir = "/tmp/test-options-json-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+    await Bun.write(dir + "/.opencode/ignore.json", "{ \"failMode\": \"open\", }")
+    await expect(createPlugin(dir)).rejects.toThrow(/^Invalid \.opencode\/ignore\.json: not valid JSON/)
+  })
+})
+
+describe("Agent Profiles", () => {
+  let tempDir: string
+  let plugin: any
+  const agents: Record<string, string> = { "s-build": "build", "s-plan": "plan", "s-general": "general" }
+  const lookups: string[] = []
+
+  beforeAll(async () => {
+    tempDir = "/tmp/test-agent-profiles-" + Date.now()
+    await Bun.write(tempDir + "/.ignore", "*.key\n")
+    await Bun.write(tempDir + "/.ignore.build", "vendor/\n")
+    await Bun.write(tempDir + "/.ignore.plan", "# @read-only\n*.key\n")
+    await Bun.write(tempDir + "/.opencode/ignore.json", JSON.stringify({
+      profiles: {
+        build: { ignoreFiles: [".ignore", ".ignore.build"] },
+        plan: { ignoreFiles: [".ignore.plan"] }
+      }
+    }))
+
+    const client = {
+      session: {
+        messages: async ({ path: { id } }: any) => {
+          lookups.push(id)
+          if (!agents[id]) throw new Error("session not found")
+          return { data: [{ info: { role: "assistant", mode: "old" } }, { info: { role: "user" } }, { info: { role: "assistant", mode: agents[id] } }] }
+        }
+      }
+    }
+    plugin = await OpenCodeIgnore({ project: {} as any, client: client as any, $: {} as any, directory: tempDir, worktree: tempDir })
+  })
+
+  function call(sessionID: string, tool: string, args: any) {
+    return plugin["tool.execute.before"]({ tool, sessionID, callID: "test" }, { args })
+  }
+
+  test("applies the profile of the session's agent", async () => {
+    await expect(call("s-build", "read", { filePath: "vendor/lib.js" })).rejects.toThrow(/\.ignore\.build:1: vendor\//)
+    await expect(call("s-build", "read", { filePath: "server.key" })).rejects.toBeInstanceOf(AccessDeniedError)
+
+    await expect(call("s-plan", "read", { filePath: "server.key" })).resolves.toBeUndefined()
+    await expect(call("s-plan", "write", { filePath: "server.key" })).rejects.toMatchObject({ code: "read-only" })
+  })
+
+  test("uses the project rules for agents without a profile", async () => {
+    await expect(call("s-general", "read", { filePath: "vendor/lib.js" })).resolves.toBeUndefined()
+    await expect(call("s-general", "read", { filePath: "server.key" })).rejects.toBeInstanceOf(AccessDeniedError)
+    await expect(call("s-missing", "read", { filePath: "server.key" })).rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("asks the client once and follows agent switches from message events", async () => {
+    expect(lookups.filter(id => id === "s-build")).toHaveLength(1)
+
+    await plugin.event({ event: { type: "message.updated", properties: { info: { role: "assistant", sessionID: "s-general", mode: "plan" } } } })
+    await expect(call("s-general", "read", { filePath: "server.key" })).resolves.toBeUndefined()
+  })
+
+  test("rejects invalid profile settings", async () => {
+    const dir = "/tmp/test-agent-profiles-invalid-" + Date.now()
+    await Bun.write(dir + "/.opencode/ignore.json", JSON.stringify({ profiles: { plan: { ignoreFiles: ["a/b"] } } }))
+    await expect(createPlugin(dir)).rejects.toThrow(/profiles\.plan\.ignoreFiles/)
   })
 })
 
@@ -147,6 +1271,52 @@ describe("File I/O Tools Protection", () => {
         .rejects.toThrow(/Access denied.*secrets\.json/)
     })
   })
+
+  describe("multiedit tool", () => {
+    test("allows edits of allowed files", async () => {
+      const edits = [{ filePath: "index.ts", oldString: "a", newString: "b" }, { filePath: "README.md", oldString: "a", newString: "b" }]
+      await expect(callHook(hook, "multiedit", { filePath: "index.ts", edits })).resolves.toBeUndefined()
+    })
+
+    test("blocks the whole call if any edit targets a blocked file", async () => {
+      const edits = [{ filePath: "index.ts", oldString: "a", newString: "b" }, { filePath: ".env", oldString: "a", newString: "b" }]
+      await expect(callHook(hook, "multiedit", { filePath: "index.ts", edits }))
+        .rejects.toThrow(/Access denied.*\.env/)
+    })
+  })
+
+  describe("patch tool", () => {
+    test("allows patches of allowed files", async () => {
+      const patchText = "--- a/src/index.ts\n+++ b/src/index.ts\n@@ -1 +1 @@\n-old\n+new"
+      await expect(callHook(hook, "patch", { patchText })).resolves.toBeUndefined()
+    })
+
+    test("blocks unified diffs that touch a blocked file", async () => {
+      const patchText = [
+        "--- a/README.md", "+++ b/README.md", "@@ -1 +1 @@", "-old", "+new",
+        "--- /dev/null", "+++ b/certs/server.key", "@@ -0,0 +1 @@", "+key"
+      ].join("\n")
+      await expect(callHook(hook, "patch", { patchText })).rejects.toThrow(/Access denied.*certs\/server\.key/)
+    })
+
+    test("blocks renames of blocked files", async () => {
+      const patchText = "diff --git a/secrets.json b/public/data.json\nsimilarity index 100%\nrename from secrets.json\nrename to public/data.json"
+      await expect(callHook(hook, "patch", { patchText })).rejects.toThrow(/Access denied.*secrets\.json/)
+    })
+
+    test("blocks apply_patch files added, deleted or moved into blocked paths", async () => {
+      const added = "*** Begin Patch\n*** Add File: notes.md\n+hi\n*** Add File: config/.env.staging\n+X=1\n*** End Patch"
+      await expect(callHook(hook, "apply_patch", { patchText: added })).rejects.toThrow(/Access denied.*\.env\.staging/)
+
+      const moved = "*** Begin Patch\n*** Update File: notes.md\n*** Move to: sensitive-data/notes.md\n@@\n-a\n+b\n*** End Patch"
+      await expect(callHook(hook, "apply_patch", { patchText: moved })).rejects.toThrow(/Access denied.*sensitive-data/)
+    })
+
+    test("denies patches whose targets cannot be found", async () => {
+      await expect(callHook(hook, "patch", { patchText: "just some text" }))
+        .rejects.toMatchObject({ code: "parse-failure", tool: "patch", path: undefined })
+    })
+  })
 })
 
 describe("Search/List Tools Protection", () => {
@@ -175,6 +1345,53 @@ describe("Search/List Tools Protection", () => {
     test("defaults to . when path not provided", async () => {
       expect(callHook(hook, "glob", {})).resolves.toBeUndefined()
     })
+
+    test("blocks patterns that can only match blocked files", async () => {
+      await expect(callHook(hook, "glob", { pattern: "certs/**/*.key" }))
+        .rejects.toThrow(/Access denied: certs\/\*\*\/\*\.key blocked by ignore file \(\.ignore:40: \/certs\/\*\*\)/)
+      await expect(callHook(hook, "glob", { pattern: "*.pem" })).rejects.toThrow(/\*\.pem/)
+      await expect(callHook(hook, "glob", { path: "sensitive-data", pattern: "*" })).rejects.toBeInstanceOf(AccessDeniedError)
+      await expect(callHook(hook, "glob", { pattern: "/etc/*" })).rejects.toMatchObject({ code: "outside-root" })
+    })
+
+    test("allows patterns that can match allowed files", async () => {
+      await expect(callHook(hook, "glob", { pattern: "**/*.ts" })).resolves.toBeUndefined()
+      await expect(callHook(hook, "glob", { pattern: "**/*.{key,md}" })).resolves.toBeUndefined()
+      await expect(callHook(hook, "glob", { pattern: "config/**" })).resolves.toBeUndefined()
+      await expect(callHook(hook, "glob", { path: "public", pattern: "*.pem" })).resolves.toBeUndefined()
+    })
+
+    test("checks only the base of patterns with too many brace alternatives", async () => {
+      const alternatives = "{a,b}".repeat(16)
+      const start = performance.now()
+      await expect(callHook(hook, "glob", { pattern: `src/${alternatives}.ts` })).resolves.toBeUndefined()
+      await expect(callHook(hook, "glob", { pattern: `certs/${alternatives}.ts` })).rejects.toBeInstanceOf(AccessDeniedError)
+      expect(performance.now() - start).toBeLessThan(1000)
+    })
+
+    test("allows patterns at any depth when a negation may re-include their matches", async () => {
+      // !**/public/** re-includes public/app.example.properties and public/.env.template
+      await expect(callHook(hook, "read", { filePath: "public/app.example.properties" })).resolves.toBeUndefined()
+      await expect(callHook(hook, "glob", { pattern: "**/app*.properties" })).resolves.toBeUndefined()
+      await expect(callHook(hook, "glob", { pattern: "**/.env*" })).resolves.toBeUndefined()
+      await expect(callHook(hook, "glob", { pattern: "**/*.pem" })).resolves.toBeUndefined()
+    })
+
+    test("blocks patterns at any depth when no negation applies", async () => {
+      const tempDir = "/tmp/test-search-depth-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+      await Bun.write(tempDir + "/.ignore", "*.pem\n*.key\n/*.crt\n")
+      const depthHook = (await createPlugin(tempDir))["tool.execute.before"]
+
+      await expect(callHook(depthHook, "glob", { pattern: "**/*.pem" })).rejects.toMatchObject({ code: "blocked" })
+      await expect(callHook(depthHook, "glob", { pattern: "src/**/*.{key,pem}" })).rejects.toMatchObject({ code: "blocked" })
+      await expect(callHook(depthHook, "grep", { pattern: "BEGIN", include: "*.pem" }))
+        .rejects.toThrow(/Access denied: \*\.pem blocked by ignore file/)
+      await expect(callHook(depthHook, "grep", { pattern: "x", path: "src", include: "*.{pem,key}" }))
+        .rejects.toThrow(/Access denied: src\/\*\.\{pem,key\}/)
+      // Only root-level certificates are blocked, deeper ones may match
+      await expect(callHook(depthHook, "glob", { pattern: "**/*.crt" })).resolves.toBeUndefined()
+      await expect(callHook(depthHook, "grep", { pattern: "x", include: "*.crt" })).resolves.toBeUndefined()
+    })
   })
 
   describe("grep tool", () => {
@@ -195,6 +1412,21 @@ describe("Search/List Tools Protection", () => {
     test("defaults to . when path not provided", async () => {
       expect(callHook(hook, "grep", {})).resolves.toBeUndefined()
     })
+
+    test("blocks include filters that can only match blocked files", async () => {
+      await expect(callHook(hook, "grep", { pattern: "x", path: "certs", include: "*.txt" }))
+        .rejects.toMatchObject({ code: "blocked" })
+      await expect(callHook(hook, "grep", { pattern: "x", include: "*.{ts,key}" })).resolves.toBeUndefined()
+    })
+
+    test("allows include filters whose matches a negation may re-include", async () => {
+      await expect(callHook(hook, "grep", { pattern: "x", include: "app*.properties" })).resolves.toBeUndefined()
+      await expect(callHook(hook, "grep", { pattern: "BEGIN", include: "*.pem" })).resolves.toBeUndefined()
+    })
+
+    test("ignores the regex pattern", async () => {
+      await expect(callHook(hook, "grep", { pattern: "certs/*.key" })).resolves.toBeUndefined()
+    })
   })
 
   describe("list tool", () => {
@@ -217,6 +1449,104 @@ describe("Search/List Tools Protection", () => {
   })
 })
 
+describe("Bash Tool Protection", () => {
+  let hook: any
+
+  beforeAll(async () => {
+    const plugin = await createPlugin()
+    hook = plugin["tool.execute.before"]
+  })
+
+  test("allows commands on allowed paths", async () => {
+    expect(callHook(hook, "bash", { command: "cat public/readme.txt | head -n 5" })).resolves.toBeUndefined()
+    expect(callHook(hook, "bash", { command: "ls -la src && npm test" })).resolves.toBeUndefined()
+    expect(callHook(hook, "bash", { command: "grep -r password ." })).resolves.toBeUndefined()
+  })
+
+  test("blocks reading blocked files", async () => {
+    expect(callHook(hook, "bash", { command: "cat sensitive-data/secrets.json" }))
+      .rejects.toThrow(/Access denied.*sensitive-data\/secrets\.json/)
+    expect(callHook(hook, "bash", { command: "echo start && tail -n 20 config/.env.staging" }))
+      .rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("blocks recursive commands on blocked directories", async () => {
+    expect(callHook(hook, "bash", { command: "grep -r password certs/" }))
+      .rejects.toThrow(/Access denied.*certs/)
+    expect(callHook(hook, "bash", { command: "tar czf backup.tgz sensitive-data" }))
+      .rejects.toThrow(/Access denied.*sensitive-data/)
+  })
+
+  test("blocks redirections, substitutions and pipes", async () => {
+    expect(callHook(hook, "bash", { command: "sort < .env" })).rejects.toBeInstanceOf(AccessDeniedError)
+    expect(callHook(hook, "bash", { command: "echo $(cat certs/server.key)" })).rejects.toBeInstanceOf(AccessDeniedError)
+    expect(callHook(hook, "bash", { command: "ls | tee secrets.json" })).rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("resolves paths relative to cd", async () => {
+    expect(callHook(hook, "bash", { command: "cd database && cat connection-string.txt" }))
+      .rejects.toThrow(/Access denied.*database\/connection-string\.txt/)
+  })
+
+  test("respects negation patterns", async () => {
+    expect(callHook(hook, "bash", { command: "cat public/.env.template" })).resolves.toBeUndefined()
+  })
+
+  test("applies outside-root policy to bash paths", async () => {
+    expect(callHook(hook, "bash", { command: "ls /tmp" })).rejects.toMatchObject({ code: "outside-root" })
+    expect(callHook(hook, "bash", { command: "ls src > /dev/null 2>&1" })).resolves.toBeUndefined()
+  })
+
+  test("keeps blocked paths blocked after cd in subshells, pushd/popd and cd -", async () => {
+    for (const command of [
+      "(cd public); cat certs/server.key",
+      "(cd public) && cat config/master-password.txt",
+      "pushd public; popd; cat config/master-password.txt",
+      "cd public; cd -; cat config/master-password.txt"
+    ]) {
+      await expect(callHook(hook, "bash", { command })).rejects.toMatchObject({ code: "blocked" })
+    }
+  })
+
+  test("allows unparseable commands when not strict", async () => {
+    expect(callHook(hook, "bash", { command: "cat $FILE" })).resolves.toBeUndefined()
+  })
+
+  test("ignores bash calls without a command", async () => {
+    expect(callHook(hook, "bash", {})).resolves.toBeUndefined()
+  })
+
+  describe("strict mode", () => {
+    let strictHook: any
+
+    beforeAll(async () => {
+      process.env.OPENCODE_IGNORE_STRICT_BASH = "1"
+      try {
+        const plugin = await createPlugin()
+        strictHook = plugin["tool.execute.before"]
+      } finally {
+        delete process.env.OPENCODE_IGNORE_STRICT_BASH
+      }
+    })
+
+    test("denies commands that cannot be verified", async () => {
+      expect(callHook(strictHook, "bash", { command: "cat $FILE" }))
+        .rejects.toMatchObject({ code: "parse-failure", tool: "bash", message: expect.stringMatching(/bash call could not be verified/) })
+      expect(callHook(strictHook, "bash", { command: "find . -name '*.key' -exec cat {} \\;" }))
+        .rejects.toBeInstanceOf(AccessDeniedError)
+    })
+
+    test("allows commands that parse cleanly", async () => {
+      expect(callHook(strictHook, "bash", { command: "cat public/readme.txt && ls src" })).resolves.toBeUndefined()
+    })
+
+    test("reports blocked paths before parse failures", async () => {
+      expect(callHook(strictHook, "bash", { command: "cat .env $FILE" }))
+        .rejects.toThrow(/Access denied: \.env blocked/)
+    })
+  })
+})
+
 describe("Pattern Types", () => {
   let plugin: any
   let hook: any
@@ -229,21 +1559,21 @@ describe("Pattern Types", () => {
   describe("absolute patterns", () => {
     test("blocks /to/ignore files", async () => {
       expect(callHook(hook, "read", { filePath: "to/ignore/file.txt" }))
-        .rejects.toThrow(/Access denied/)
+        .rejects.toBeInstanceOf(AccessDeniedError)
     })
 
     test("blocks /somedir/toignore/** files", async () => {
       expect(callHook(hook, "read", { filePath: "somedir/toignore/nested/file.txt" }))
-        .rejects.toThrow(/Access denied/)
+        .rejects.toBeInstanceOf(AccessDeniedError)
     })
   })
 
   describe("glob patterns", () => {
     test("blocks **/bamboo-specs/** files", async () => {
       expect(callHook(hook, "read", { filePath: "foo/bamboo-specs/plan.yml" }))
-        .rejects.toThrow(/Access denied/)
+        .rejects.toBeInstanceOf(AccessDeniedError)
       expect(callHook(hook, "read", { filePath: "bar/baz/bamboo-specs/config.xml" }))
-        .rejects.toThrow(/Access denied/)
+        .rejects.toBeInstanceOf(AccessDeniedError)
     })
 
     test("allows bamboo-specs directory itself (only blocks files inside)", async () => {
@@ -253,23 +1583,23 @@ describe("Pattern Types", () => {
 
     test("blocks **/keycloak-realm-config/templates/** files", async () => {
       expect(callHook(hook, "read", { filePath: "keycloak-realm-config/templates/realm.json" }))
-        .rejects.toThrow(/Access denied/)
+        .rejects.toBeInstanceOf(AccessDeniedError)
     })
   })
 
   describe("wildcard patterns", () => {
     test("blocks *-realm.json files", async () => {
       expect(callHook(hook, "read", { filePath: "dev-realm.json" }))
-        .rejects.toThrow(/Access denied/)
+        .rejects.toBeInstanceOf(AccessDeniedError)
       expect(callHook(hook, "read", { filePath: "prod-realm.json" }))
-        .rejects.toThrow(/Access denied/)
+        .rejects.toBeInstanceOf(AccessDeniedError)
     })
 
     test("blocks some*.properties files", async () => {
       expect(callHook(hook, "read", { filePath: "some.properties" }))
-        .rejects.toThrow(/Access denied/)
+        .rejects.toBeInstanceOf(AccessDeniedError)
       expect(callHook(hook, "read", { filePath: "something.properties" }))
-        .rejects.toThrow(/Access denied/)
+        .rejects.toBeInstanceOf(AccessDeniedError)
     })
 
     test("allows other .properties files", async () => {
@@ -298,7 +1628,7 @@ describe("Pattern Types", () => {
       expect(callHook(hook, "read", { filePath: "somedir/toignore/file-to-not-ignore.md" }))
         .resolves.toBeUndefined()
       expect(callHook(hook, "read", { filePath: "somedir/toignore/other-file.txt" }))
-        .rejects.toThrow(/Access denied/)
+        .rejects.toBeInstanceOf(AccessDeniedError)
     })
 
     test("allows **/target/** due to negation", async () => {
@@ -321,7 +1651,7 @@ describe("Path Normalization", () => {
     test("handles absolute paths correctly", async () => {
       const absolutePath = path.join(TEST_PROJECT_ROOT, "secrets.json")
       expect(callHook(hook, "read", { filePath: absolutePath }))
-        .rejects.toThrow(/Access denied/)
+        .rejects.toBeInstanceOf(AccessDeniedError)
     })
 
     test("allows absolute path to allowed file", async () => {
@@ -333,7 +1663,7 @@ describe("Path Normalization", () => {
   describe("./ prefix handling", () => {
     test("handles ./ prefix correctly", async () => {
       expect(callHook(hook, "read", { filePath: "./secrets.json" }))
-        .rejects.toThrow(/Access denied/)
+        .rejects.toBeInstanceOf(AccessDeniedError)
       expect(callHook(hook, "read", { filePath: "./index.ts" })).resolves.toBeUndefined()
     })
   })
@@ -341,7 +1671,7 @@ describe("Path Normalization", () => {
   describe("nested directories", () => {
     test("handles deeply nested paths", async () => {
       expect(callHook(hook, "read", { filePath: "foo/bar/baz/bamboo-specs/plan.yml" }))
-        .rejects.toThrow(/Access denied/)
+        .rejects.toBeInstanceOf(AccessDeniedError)
       expect(callHook(hook, "read", { filePath: "deep/nested/path/allowed.txt" }))
         .resolves.toBeUndefined()
     })
@@ -354,7 +1684,7 @@ describe("Path Normalization", () => {
       
       // Files inside bamboo-specs/ should be blocked
       expect(callHook(hook, "read", { filePath: "bamboo-specs/file.txt" }))
-        .rejects.toThrow(/Access denied/)
+        .rejects.toBeInstanceOf(AccessDeniedError)
     })
 
     test(".local/ directory is allowed", async () => {
@@ -390,7 +1720,7 @@ describe("Edge Cases", () => {
   })
 
   test("ignores unsupported tools", async () => {
-    // Tool that's not in extractPathFromTool should be skipped
+    // Tool that's not in extractPathsFromTool should be skipped
     expect(callHook(hook, "unknown_tool", { somePath: "secrets.json" }))
       .resolves.toBeUndefined()
   })
@@ -407,6 +1737,131 @@ describe("Edge Cases", () => {
   })
 })
 
+describe("Filesystem Types", () => {
+  let tempDir: string
+  let hook: any
+
+  beforeAll(async () => {
+    tempDir = "/tmp/test-fs-types-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+    await Bun.write(tempDir + "/.ignore", "secrets/\nbuild/\nlogs/\n")
+    await Bun.write(tempDir + "/secrets/token.txt", "x")
+    await Bun.write(tempDir + "/build", "not a directory")
+    await symlink(tempDir + "/secrets", tempDir + "/linked")
+    hook = (await createPlugin(tempDir))["tool.execute.before"]
+  })
+
+  test("checks a directory given to a file tool as a directory", async () => {
+    await expect(callHook(hook, "read", { filePath: "secrets" })).rejects.toMatchObject({ code: "blocked", normalizedPath: "secrets/" })
+    await expect(callHook(hook, "read", { filePath: "linked" })).rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("checks a file given to a directory tool as a file", async () => {
+    await expect(callHook(hook, "grep", { path: "build", pattern: "x" })).resolves.toBeUndefined()
+    await expect(callHook(hook, "list", { path: "build" })).resolves.toBeUndefined()
+    await expect(callHook(hook, "list", { path: "secrets" })).rejects.toBeInstanceOf(AccessDeniedError)
+  })
+
+  test("keeps the tool's type for paths that do not exist yet", async () => {
+    await expect(callHook(hook, "write", { filePath: "secrets/new.txt", content: "x" })).rejects.toBeInstanceOf(AccessDeniedError)
+    await expect(callHook(hook, "write", { filePath: "logs/today/new.txt", content: "x" })).rejects.toBeInstanceOf(AccessDeniedError)
+    await expect(callHook(hook, "write", { filePath: "logs", content: "x" })).resolves.toBeUndefined()
+    await expect(callHook(hook, "list", { path: "logs" })).rejects.toBeInstanceOf(AccessDeniedError)
+  })
+})
+
+describe("Path Canonicalization", () => {
+  let hook: any
+
+  beforeAll(async () => {
+    hook = (await createPlugin())["tool.execute.before"]
+  })
+
+  // Spellings of blocked fixtures that name the same file, or would on some filesystem or shell
+  const evasions: [string, string, string][] = [
+    ["duplicate slashes", "certs//server.key", "certs/server.key"],
+    ["dot segments", "src/../certs/server.key", "certs/server.key"],
+    ["current directory segments", "./config/./production/db.yml", "config/production/db.yml"],
+    ["backslash separators", "sensitive-data\\secrets.txt", "sensitive-data/secrets.txt"],
+    ["backslash dot segments", "src\\..\\secrets.json", "secrets.json"],
+    ["absolute path with dot segments", path.join(TEST_PROJECT_ROOT, "src", "..", "credentials.json"), "credentials.json"],
+    ["absolute path with duplicate slashes", TEST_PROJECT_ROOT + "//database//connection-string.txt", "database/connection-string.txt"],
+    ["trailing dot", "secrets.json.", "secrets.json"],
+    ["trailing dots and spaces", "config/master-password.txt. .", "config/master-password.txt"],
+    ["trailing dot in a directory", "certs./notes.txt", "certs/notes.txt"],
+    ["trailing space in a directory", "sensitive-data /notes.txt", "sensitive-data/notes.txt"],
+    ["decomposed Unicode", "re\u0301sume\u0301-confidentiel.txt", "r\u00e9sum\u00e9-confidentiel.txt"],
+    ["composed Unicode", "r\u00e9sum\u00e9-confidentiel.txt", "r\u00e9sum\u00e9-confidentiel.txt"]
+  ]
+
+  for (const [name, filePath, normalizedPath] of evasions) {
+    test(`denies ${name}`, async () => {
+      await expect(callHook(hook, "read", { filePath })).rejects.toMatchObject({ code: "blocked", normalizedPath })
+      await expect(callHook(hook, "write", { filePath, content: "x" })).rejects.toBeInstanceOf(AccessDeniedError)
+    })
+  }
+
+  test("checks a leading ~ as the home directory too", async () => {
+    await expect(callHook(hook, "read", { filePath: "~/.ssh/config" })).rejects.toMatchObject({ code: "outside-root" })
+    await expect(callHook(hook, "read", { filePath: "~" })).rejects.toMatchObject({ code: "outside-root" })
+  })
+
+  test("allows canonical spellings of allowed files", async () => {
+    await expect(callHook(hook, "read", { filePath: "src//index.ts" })).resolves.toBeUndefined()
+    await expect(callHook(hook, "read", { filePath: "README.md." })).resolves.toBeUndefined()
+    await expect(callHook(hook, "read", { filePath: "certs/../src/index.ts" })).resolves.toBeUndefined()
+  })
+
+  describe("case sensitivity", () => {
+    async function createProject(ignorecase: boolean) {
+      const dir = "/tmp/test-case-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+      await Bun.write(dir + "/.ignore", "secrets.json\n/certs/**\n*.key\n!public.key\n")
+      await Bun.write(dir + "/.opencode/ignore.json", JSON.stringify({ ignorecase, outsideRoot: { policy: "listed", directories: [{ path: "/tmp/shared", patterns: ["*.env"] }] } }))
+      return (await createPlugin(dir))["tool.execute.before"]
+    }
+
+    test("matches any case with ignorecase", async () => {
+      const caseHook = await createProject(true)
+      for (const filePath of ["Secrets.JSON", "SECRETS.json", "CERTS/server.crt", "Certs/a.txt", "id.KEY", "/tmp/shared/PROD.ENV"]) {
+        await expect(callHook(caseHook, "read", { filePath })).rejects.toBeInstanceOf(AccessDeniedError)
+      }
+      await expect(callHook(caseHook, "read", { filePath: "PUBLIC.KEY" })).resolves.toBeUndefined()
+    })
+
+    test("matches exact case without ignorecase", async () => {
+      const caseHook = await createProject(false)
+      await expect(callHook(caseHook, "read", { filePath: "secrets.json" })).rejects.toBeInstanceOf(AccessDeniedError)
+      for (const filePath of ["Secrets.JSON", "CERTS/server.crt", "id.KEY", "/tmp/shared/PROD.ENV"]) {
+        await expect(callHook(caseHook, "read", { filePath })).resolves.toBeUndefined()
+      }
+    })
+
+    test("rejects a non-boolean setting", async () => {
+      const dir = "/tmp/test-case-invalid-" + Date.now()
+      await Bun.write(dir + "/.opencode/ignore.json", JSON.stringify({ ignorecase: "auto" }))
+      await expect(createPlugin(dir)).rejects.toThrow(/ignorecase must be true or false/)
+    })
+  })
+})
+
+describe("Ignore File Lint", () => {
+  test("logs warnings about ignore files when the plugin starts", async () => {
+    const tempDir = "/tmp/test-lint-plugin-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+    await Bun.write(tempDir + "/.opencode/ignore.json", JSON.stringify({ globalIgnoreFile: false }))
+    await Bun.write(tempDir + "/.ignore", "/keys/\n!/keys/pub.pem\n")
+    await Bun.write(tempDir + "/keys/pub.pem", "x")
+
+    const messages: any[] = []
+    const client = { app: { log: async (options: any) => { messages.push(options.body) } } }
+    await OpenCodeIgnore({ project: {} as any, client: client as any, $: {} as any, directory: tempDir, worktree: tempDir })
+
+    expect(messages).toEqual([{
+      service: "opencode-ignore",
+      level: "warn",
+      message: "Ignore file warning: .ignore:2: !/keys/pub.pem: cannot re-include anything: its directory keys/ is excluded by line 1 (/keys/)"
+    }])
+  })
+})
+
 describe("Real-world Scenarios", () => {
   let plugin: any
   let hook: any
@@ -442,7 +1897,7 @@ describe("Real-world Scenarios", () => {
 
     for (const file of sensitiveFiles) {
       expect(callHook(hook, "read", { filePath: file }))
-        .rejects.toThrow(/Access denied/)
+        .rejects.toBeInstanceOf(AccessDeniedError)
     }
   })
 
@@ -452,7 +1907,7 @@ describe("Real-world Scenarios", () => {
     
     // But block bamboo-specs inside any directory
     expect(callHook(hook, "read", { filePath: "src/bamboo-specs/plan.yml" }))
-      .rejects.toThrow(/Access denied/)
+      .rejects.toBeInstanceOf(AccessDeniedError)
   })
 })
 
@@ -477,7 +1932,7 @@ describe("Glob Tool Result Filtering", () => {
       ]
     }
 
-    const filtered = await afterHook(
+    const filtered = await afterOutput(afterHook,
       { tool: "glob", sessionID: "test", callID: "test" },
       { args: { pattern: "**/*" }, output: mockOutput }
     )
@@ -501,7 +1956,7 @@ describe("Glob Tool Result Filtering", () => {
       ]
     }
 
-    const filtered = await afterHook(
+    const filtered = await afterOutput(afterHook,
       { tool: "glob", sessionID: "test", callID: "test" },
       { args: { pattern: "**/*" }, output: mockOutput }
     )
@@ -520,7 +1975,7 @@ describe("Glob Tool Result Filtering", () => {
       ]
     }
 
-    const filtered = await afterHook(
+    const filtered = await afterOutput(afterHook,
       { tool: "glob", sessionID: "test", callID: "test" },
       { args: { pattern: "**/*" }, output: mockOutput }
     )
@@ -532,7 +1987,7 @@ describe("Glob Tool Result Filtering", () => {
   test("handles glob results with no files", async () => {
     const mockOutput = { files: [] }
 
-    const filtered = await afterHook(
+    const filtered = await afterOutput(afterHook,
       { tool: "glob", sessionID: "test", callID: "test" },
       { args: { pattern: "**/*.xyz" }, output: mockOutput }
     )
@@ -540,15 +1995,15 @@ describe("Glob Tool Result Filtering", () => {
     expect(filtered.files).toEqual([])
   })
 
-  test("handles malformed glob results gracefully", async () => {
+  test("withholds malformed glob results", async () => {
     const mockOutput = { files: null }
 
-    const filtered = await afterHook(
+    const filtered = await afterOutput(afterHook,
       { tool: "glob", sessionID: "test", callID: "test" },
       { args: { pattern: "**/*" }, output: mockOutput }
     )
 
-    expect(filtered).toEqual(mockOutput)
+    expect(filtered).toMatch(/glob output could not be verified/)
   })
 
   test("respects negation patterns", async () => {
@@ -561,7 +2016,7 @@ describe("Glob Tool Result Filtering", () => {
       ]
     }
 
-    const filtered = await afterHook(
+    const filtered = await afterOutput(afterHook,
       { tool: "glob", sessionID: "test", callID: "test" },
       { args: { pattern: "**/*" }, output: mockOutput }
     )
@@ -577,7 +2032,7 @@ describe("Glob Tool Result Filtering", () => {
       files: ["secrets.json", "index.ts"]
     }
 
-    const filtered = await afterHook(
+    const filtered = await afterOutput(afterHook,
       { tool: "read", sessionID: "test", callID: "test" },
       { args: {}, output: mockOutput }
     )
@@ -606,7 +2061,7 @@ describe("Grep Tool Result Filtering", () => {
       ]
     }
 
-    const filtered = await afterHook(
+    const filtered = await afterOutput(afterHook,
       { tool: "grep", sessionID: "test", callID: "test" },
       { args: { pattern: ".*" }, output: mockOutput }
     )
@@ -625,7 +2080,7 @@ describe("Grep Tool Result Filtering", () => {
       ]
     }
 
-    const filtered = await afterHook(
+    const filtered = await afterOutput(afterHook,
       { tool: "grep", sessionID: "test", callID: "test" },
       { args: { pattern: ".*" }, output: mockOutput }
     )
@@ -651,7 +2106,7 @@ describe("Grep Tool Result Filtering", () => {
       ]
     }
 
-    const filtered = await afterHook(
+    const filtered = await afterOutput(afterHook,
       { tool: "grep", sessionID: "test", callID: "test" },
       { args: { pattern: "secret" }, output: mockOutput }
     )
@@ -663,7 +2118,7 @@ describe("Grep Tool Result Filtering", () => {
   test("handles grep results with no matches", async () => {
     const mockOutput = { matches: [] }
 
-    const filtered = await afterHook(
+    const filtered = await afterOutput(afterHook,
       { tool: "grep", sessionID: "test", callID: "test" },
       { args: { pattern: "nonexistent" }, output: mockOutput }
     )
@@ -671,15 +2126,15 @@ describe("Grep Tool Result Filtering", () => {
     expect(filtered.matches).toEqual([])
   })
 
-  test("handles malformed grep results gracefully", async () => {
+  test("withholds malformed grep results", async () => {
     const mockOutput = { matches: null }
 
-    const filtered = await afterHook(
+    const filtered = await afterOutput(afterHook,
       { tool: "grep", sessionID: "test", callID: "test" },
       { args: { pattern: "test" }, output: mockOutput }
     )
 
-    expect(filtered).toEqual(mockOutput)
+    expect(filtered).toMatch(/grep output could not be verified/)
   })
 
   test("keeps matches without file info", async () => {
@@ -691,7 +2146,7 @@ describe("Grep Tool Result Filtering", () => {
       ]
     }
 
-    const filtered = await afterHook(
+    const filtered = await afterOutput(afterHook,
       { tool: "grep", sessionID: "test", callID: "test" },
       { args: { pattern: ".*" }, output: mockOutput }
     )
@@ -710,7 +2165,7 @@ describe("Grep Tool Result Filtering", () => {
       ]
     }
 
-    const filtered = await afterHook(
+    const filtered = await afterOutput(afterHook,
       { tool: "grep", sessionID: "test", callID: "test" },
       { args: { pattern: ".*" }, output: mockOutput }
     )
@@ -725,7 +2180,7 @@ describe("Grep Tool Result Filtering", () => {
       matches: [{ file: "secrets.json", line: 1, match: "secret" }]
     }
 
-    const filtered = await afterHook(
+    const filtered = await afterOutput(afterHook,
       { tool: "write", sessionID: "test", callID: "test" },
       { args: {}, output: mockOutput }
     )
@@ -734,3 +2189,173 @@ describe("Grep Tool Result Filtering", () => {
     expect(filtered).toEqual(mockOutput)
   })
 })
+
+describe("List Tool Result Filtering", () => {
+  let plugin: any
+  let afterHook: any
+
+  beforeAll(async () => {
+    plugin = await createPlugin()
+    afterHook = plugin["tool.execute.after"]
+  })
+
+  function listOutput(...entries: string[]) {
+    return [`${TEST_PROJECT_ROOT}/`, ...entries, ""].join("\n")
+  }
+
+  test("filters blocked files from the tree", async () => {
+    const context = {
+      output: listOutput(
+        "  src/",
+        "    index.ts",
+        "    secrets.json",        // BLOCKED
+        "  .env",                  // BLOCKED
+        "  README.md",
+        "  config.local.json"      // ALLOWED (negation)
+      ),
+      metadata: {}
+    }
+
+    const filtered = await afterOutput(afterHook, { tool: "list", sessionID: "test", callID: "test" }, context)
+
+    expect(filtered).toBe(listOutput("  src/", "    index.ts", "  README.md", "  config.local.json"))
+    expect(context.output).toBe(filtered)
+  })
+
+  test("hides blocked subtrees entirely", async () => {
+    const filtered = await afterOutput(afterHook,
+      { tool: "list", sessionID: "test", callID: "test" },
+      {
+        output: listOutput(
+          "  to/",
+          "    ignore/",             // BLOCKED directory
+          "      notes.md",
+          "      nested/",
+          "        deep.txt",
+          "    keep.md",
+          "  certs/",                // every entry blocked by /certs/**
+          "    ca/",
+          "      root.pem",
+          "    server.key",
+          "  README.md"
+        ),
+        metadata: {}
+      }
+    )
+
+    expect(filtered).toBe(listOutput("  to/", "    keep.md", "  README.md"))
+    expect(filtered).not.toContain("deep.txt")
+    expect(filtered).not.toContain("certs")
+  })
+
+  test("keeps directories with re-included files", async () => {
+    const output = listOutput(
+      "  somedir/",
+      "    toignore/",
+      "      file-to-not-ignore.md", // ALLOWED (negation)
+      "      other.md"               // BLOCKED
+    )
+
+    const filtered = await afterOutput(afterHook, { tool: "list", sessionID: "test", callID: "test" }, { output, metadata: {} })
+
+    expect(filtered).toBe(listOutput("  somedir/", "    toignore/", "      file-to-not-ignore.md"))
+  })
+
+  test("keeps empty directories", async () => {
+    const output = listOutput("  empty/", "  README.md")
+
+    const filtered = await afterOutput(afterHook, { tool: "list", sessionID: "test", callID: "test" }, { output, metadata: {} })
+
+    expect(filtered).toBe(output)
+  })
+})
+
+describe("Tool Output Text Filtering", () => {
+  let plugin: any
+  let afterHook: any
+
+  beforeAll(async () => {
+    plugin = await createPlugin()
+    afterHook = plugin["tool.execute.after"]
+  })
+
+  async function fixture(name: string) {
+    const text = await Bun.file(path.join(process.cwd(), "fixtures/tool-output", name)).text()
+    return text.replaceAll("<root>", TEST_PROJECT_ROOT)
+  }
+
+  async function filterOutput(tool: string, output: any) {
+    const context = { title: "", output, metadata: {} }
+    const filtered = await afterOutput(afterHook, { tool, sessionID: "test", callID: "test" }, context)
+    expect(context.output).toBe(filtered)
+    return filtered
+  }
+
+  test("filters recorded glob output", async () => {
+    const filtered = await filterOutput("glob", await fixture("glob.txt"))
+
+    expect(filtered).toBe([
+      ".ignore",
+      "test-data/mock-secrets.json",
+      "test-data/sample.properties",
+      "config/app.env.production",
+      "public/readme.txt",
+      "public/.env.template",
+      "public/app.example.properties",
+      "README.md",
+      "TEST-SCENARIOS.md"
+    ].map(file => `${TEST_PROJECT_ROOT}/${file}`).join("\n"))
+  })
+
+  test("filters recorded grep output and recounts matches", async () => {
+    const filtered = await filterOutput("grep", await fixture("grep.txt"))
+
+    expect(filtered).toBe([
+      "Found 1 matches",
+      `${TEST_PROJECT_ROOT}/public/app.example.properties:`,
+      "  Line 6: database.password=your_password_here"
+    ].join("\n"))
+  })
+
+  // ripgrep skips what .ignore blocks when listing, but not other ignore files such as .aiignore
+  test("keeps recorded list output that ripgrep already filtered", async () => {
+    expect(await filterOutput("list", await fixture("list.txt"))).toBe(await fixture("list.txt"))
+  })
+
+  test("filters recorded list output", async () => {
+    const filtered = await filterOutput("list", await fixture("list-aiignore.txt"))
+
+    expect(filtered).toBe([
+      `${TEST_PROJECT_ROOT}/`,
+      "  config/",
+      "    app.env.production",
+      "  public/",
+      "    .env.template",
+      "    app.example.properties",
+      "    readme.txt",
+      "  test-data/",
+      "    mock-secrets.json",
+      "    sample.properties",
+      "  .aiignore",
+      "  README.md",
+      "  TEST-SCENARIOS.md",
+      ""
+    ].join("\n"))
+  })
+
+  test("reports no files when every result is blocked", async () => {
+    const output = `Found 1 matches\n${TEST_PROJECT_ROOT}/.env:\n  Line 1: API_KEY=secret`
+
+    expect(await filterOutput("grep", output)).toBe("No files found")
+    expect(await filterOutput("glob", `${TEST_PROJECT_ROOT}/.env`)).toBe("No files found")
+  })
+
+  test("withholds output it cannot parse", async () => {
+    const leaked = `Error: unexpected output\n${TEST_PROJECT_ROOT}/.env`
+
+    for (const tool of ["glob", "grep", "list"]) {
+      const filtered = await filterOutput(tool, leaked)
+      expect(filtered).toBe(`Access denied: ${tool} output could not be verified against ignore file and was withheld. Access restricted.`)
+    }
+  })
+})
@@ -1,229 +1,596 @@
-import type {Plugin} from "@opencode-ai/plugin"
-import ignore from "ignore"
-import {isPathValid} from "ignore"
-import {join, isAbsolute, relative} from "path"
+import type {Plugin, PluginInput} from "@opencode-ai/plugin"
+import {isAbsolute, join, resolve} from "path"
+import {stat} from "fs/promises"
+import {analyzeShellCommand} from "./shell"
+import {analyzePatch} from "./patch"
+import {analyzeSearchPattern} from "./search"
+import {extractToolPaths, findToolConfigs, NATIVE_TOOLS, outputFormat, type OutputFormat} from "./tools"
+import {createAuditLog, defaultAuditLogFile, type AuditLog} from "./audit"
+import {createApprovals, defaultApprovalsFile, parseApprovalAnswer} from "./approvals"
+import {
+  createGrants,
+  defaultGrantsFile,
+  formatGrant,
+  GRANT_COMMANDS,
+  parseDuration,
+  parseGrantCommand,
+  type Grant,
+  type GrantCommand
+} from "./grants"
+import {redactSecrets} from "./redact"
+import {AccessDeniedError, checkDenial, denialMessage, type Denial} from "./errors"
+import type {MessageTemplates} from "./messages"
+import {formatLintWarning, lintIgnoreFiles} from "./lint"
+import {
+  formatGlobOutput,
+  formatGrepOutput,
+  formatListOutput,
+  parseGlobOutput,
+  parseGrepOutput,
+  parseListOutput,
+  type GrepFile,
+  type ListEntry
+} from "./results"
+import {expandHome, pathVariants} from "./canonical"
+import {
+  formatRule,
+  loadConfig,
+  type Operation,
+  type PathCheck,
+  type PathKind,
+  type PluginConfig
+} from "./engine"
+import {createPolicy, type Policy} from "./policy"
+
+/** Default audit log rotation limits (the file itself defaults to defaultAuditLogFile()) */
+const DEFAULT_AUDIT_LOG = {
+  maxSize: 10 * 1024 * 1024,
+  maxFiles: 5
+}
+
+/**
+ * Open the configured audit log
+ * @param config - Audit log settings from the plugin configuration
+ * @param projectRoot - Absolute path to project root (base for a relative log path)
+ * @returns AuditLog, or null if auditing is disabled
+ */
+function openAuditLog(config: PluginConfig["auditLog"], projectRoot: string): AuditLog | null {
+  if (!config) return null
+  
+  const settings = {...DEFAULT_AUDIT_LOG, ...(config === true ? {} : config)}
+  const path = settings.path === undefined ? defaultAuditLogFile() : resolve(projectRoot, expandHome(settings.path))
+  return createAuditLog({...settings, path})
+}
+
+/**
+ * Read a switch from an environment variable, which overrides the plugin configuration
+ * @param name - Environment variable name
+ * @returns true for "1" or "true", false for "0" or "false", undefined if unset
+ */
+function environmentSwitch(name: string): boolean | undefined {
+  const value = process.env[name]
+  if (value === "1" || value === "true") return true
+  if (value === "0" || value === "false") return false
+  return undefined
+}
+
+/**
+ * Receives every denied or filtered path (used for the audit log)
+ * @param path - Path as given by the tool, found in a command or in results
+ * @param check - Non-allowed check result
+ * @param grant - Grant that allowed the path anyway
+ */
+type DenialReporter = (path: string, check: PathCheck, grant?: Grant) => void
 
 /**
- * Load ignore patterns from project root
- * Uses .ignore file
+ * Rejects a tool call; denials decided by rules are reported
+ * @param denial - Why the call is rejected (the denier knows the tool)
+ * @throws AccessDeniedError with the configured message
+ */
+type Denier = (denial: Omit<Denial, "tool">) => never
+
+/**
+ * Settles a non-allowed check with the user's decisions: grants and answers to prompt rules
+ * @param path - Path as given by the tool
+ * @param check - Check result
+ * @returns allowed if a grant or an approval covers the path, blocked if the user denied it,
+ *   otherwise the check unchanged (a path behind a prompt rule then waits for an answer)
+ */
+type AccessResolver = (path: string, check: PathCheck) => Promise<PathCheck>
+
+/**
+ * Find the type of a path on disk
+ * Symlinks are followed, so a link to a directory is a directory
+ *
+ * @param path - Path as given by the tool
  * @param projectRoot - Absolute path to project root
- * @returns Ignore instance or null if no ignore file exists
+ * @returns file or directory, or null if nothing exists at the path
  */
-async function loadIgnore(projectRoot: string): Promise<ReturnType<typeof ignore> | null> {
-  const ignorePath = join(projectRoot, ".ignore")
-  const file = Bun.file(ignorePath)
-  if (await file.exists()) {
-    const ignoreLib = ignore()
-    ignoreLib.add(await file.text())
-    return ignoreLib
+async function diskKind(path: string, projectRoot: string): Promise<"file" | "directory" | null> {
+  try {
+    return (await stat(pathVariants(path, projectRoot)[0]!)).isDirectory() ? "directory" : "file"
+  } catch {
+    return null
   }
-  
-  return null
 }
 
 /**
- * Normalize path to format required by ignore library
+ * Check a path named in a tool call
  *
- * The ignore library requires specific path format:
- * - Must be relative to project root (no absolute paths)
- * - No "./" prefix (must be clean like "src/file.ts")
- * - Use forward slashes (Win32 backslashes converted)
- * - Directories need trailing "/" for proper matching
+ * A path that exists is checked as what it is on disk, not as what the tool
+ * expects: a read of a directory must not slip past a "secrets/" rule, and a
+ * glob over a file is not a directory. A path that does not exist yet (a new
+ * file to write) keeps the tool's kind; rules on its directories still apply.
  *
- * @param targetPath - Path to normalize (absolute or relative)
- * @param projectRoot - Absolute path to project root
- * @param isDirectory - Whether the path represents a directory
- * @returns Normalized relative path ready for ignore library
- * @throws Error if resulting path format is invalid
+ * @param path - Path argument or a path found in a command or pattern
+ * @param policy - Access policy of the project
+ * @param kind - How the tool uses the path (unknown paths are checked as both file and directory)
+ * @param operation - Access the tool needs
+ * @param deny - Rejects the call if the path cannot be checked
+ * @returns Check result
+ * @throws AccessDeniedError (invalid-path) if the path is not a string, contains a NUL byte or cannot be normalized
  */
-function normalizePath(targetPath: string, projectRoot: string, isDirectory: boolean): string {
-  // Step 1: Convert to absolute if needed (handles relative paths)
-  const absolutePath = isAbsolute(targetPath) ? targetPath : join(projectRoot, targetPath)
-  
-  // Step 2: Make relative to project root
-  const relativePath = relative(projectRoot, absolutePath)
-  
-  // Step 3: Handle empty path (project root itself)
-  const resolvedPath = relativePath === "" ? "." : relativePath
-  
-  // Step 4: Normalize separators (Win32 backslashes → forward slashes)
-  const normalizedPath = resolvedPath.replace(/\\/g, "/")
-  
-  // Step 5: Remove "./" prefix (critical - ignore library requirement)
-  const withoutPrefixPath = normalizedPath.startsWith("./") ? normalizedPath.slice(2) : normalizedPath
+async function checkCallPath(path: unknown, policy: Policy, kind: PathKind, operation: Operation, deny: Denier): Promise<PathCheck> {
+  if (typeof path !== "string" || path.includes("\0")) return deny({code: "invalid-path", path: String(path)})
   
-  // Step 6: Add trailing "/" for directories (except project root)
-  // This ensures directory patterns match correctly (e.g., "src/" vs "src")
-  const withSlashPath = isDirectory && withoutPrefixPath !== "." && !withoutPrefixPath.endsWith("/")
-    ? withoutPrefixPath + "/"
-    : withoutPrefixPath
-  
-  // Step 7: Validate path format using ignore library validator
-  if (!isPathValid(withSlashPath)) {
-    throw new Error(`Invalid path format: ${withSlashPath}`)
+  try {
+    const actualKind = kind === "unknown" ? kind : await diskKind(path, policy.projectRoot) ?? kind
+    return await policy.check(path, actualKind, operation)
+  } catch {
+    return deny({code: "invalid-path", path})
   }
-  
-  return withSlashPath
 }
 
 /**
- * Check if a path should be blocked by .ignore patterns
+ * Check a single result path, treating unnormalizable paths as blocked
  *
- * @param targetPath - Path to check (absolute or relative)
- * @param projectRoot - Absolute path to project root
- * @param isDirectory - Whether the path represents a directory
- * @returns true if path matches ignore patterns (should be blocked), false otherwise
+ * @param filePath - Path reported by the tool
+ * @param policy - Access policy of the project
+ * @param report - Called when the path is removed from results
+ * @param namesOnly - Results show names only, not content: redacted files and files behind prompt rules are kept
+ * @param kind - Whether the path is a file or a directory
+ * @returns true if path should be removed from results
  */
-async function isPathBlocked(targetPath: string, projectRoot: string, isDirectory: boolean): Promise<boolean> {
-  // Load .ignore file (returns null if missing - graceful degradation)
-  const ignoreLib = await loadIgnore(projectRoot)
-  if (!ignoreLib) return false // No .ignore file = allow all access
+async function isResultPathBlocked(
+  filePath: string,
+  policy: Policy,
+  report: DenialReporter,
+  namesOnly: boolean,
+  kind: PathKind = "file"
+): Promise<boolean> {
+  let check: PathCheck
+  try {
+    check = await policy.check(filePath, kind, "read")
+  } catch {
+    // If normalization fails, filter out the path (safer approach)
+    check = {decision: "blocked", normalizedPath: filePath}
+  }
   
-  // Normalize path to format required by ignore library
-  const normalizedPath = normalizePath(targetPath, projectRoot, isDirectory)
+  if (check.decision === "allowed" || (namesOnly && (check.decision === "redacted" || check.decision === "prompt"))) return false
   
-  // Check if path matches any ignore pattern
-  return ignoreLib.ignores(normalizedPath)
+  report(filePath, check)
+  return true
+}
+
+/**
+ * Glob result object of older tool versions
+ */
+interface GlobResultObject {
+  files: string[]
+}
+
+/**
+ * Grep result object of older tool versions
+ */
+interface GrepResultObject {
+  /** Matches, with the file they were found in if known */
+  matches: ({file?: string} | null)[]
+}
+
+/**
+ * Filtered result of a search tool: text, as the hook types it, or a result object of older tool versions
+ */
+type SearchResult = string | GlobResultObject | GrepResultObject
+
+/**
+ * Check if a tool result is a glob result object of older tool versions
+ * @param result - Tool result
+ * @returns true if result holds a files array
+ */
+function isGlobResultObject(result: unknown): result is GlobResultObject {
+  return typeof result === "object" && result !== null && Array.isArray((result as GlobResultObject).files)
+}
+
+/**
+ * Check if a tool result is a grep result object of older tool versions
+ * @param result - Tool result
+ * @returns true if result holds a matches array
+ */
+function isGrepResultObject(result: unknown): result is GrepResultObject {
+  return typeof result === "object" && result !== null && Array.isArray((result as GrepResultObject).matches)
 }
 
 /**
  * Filter glob tool results to remove blocked files
  * 
- * @param result - Original glob result object
- * @param ignoreLib - Ignore instance with loaded patterns
- * @param projectRoot - Absolute path to project root
- * @returns Filtered result with blocked files removed
+ * @param result - Original glob output text, or result object with a files array
+ * @param policy - Access policy of the project
+ * @param report - Called for every removed file
+ * @returns Filtered result with blocked files removed, or null if the result is not glob output
  */
-function filterGlobResults(
-  result: any,
-  ignoreLib: ReturnType<typeof ignore>,
-  projectRoot: string
-): any {
-  if (!result?.files || !Array.isArray(result.files)) return result
-  
-  const filteredFiles = result.files.filter((filePath: string) => {
-    try {
-      const normalized = normalizePath(filePath, projectRoot, false)
-      return !ignoreLib.ignores(normalized)
-    } catch {
-      // If normalization fails, filter out the file (safer approach)
-      return false
+async function filterGlobResults(result: unknown, policy: Policy, report: DenialReporter): Promise<string | GlobResultObject | null> {
+  if (typeof result === "string") {
+    const output = parseGlobOutput(result)
+    if (!output) return null
+    
+    const files: string[] = []
+    for (const filePath of output.files) {
+      if (!await isResultPathBlocked(filePath, policy, report, true)) files.push(filePath)
     }
-  })
+    
+    return formatGlobOutput({...output, files})
+  }
+  
+  if (!isGlobResultObject(result)) return null
+  
+  const filteredFiles: string[] = []
+  for (const filePath of result.files) {
+    if (!await isResultPathBlocked(filePath, policy, report, true)) filteredFiles.push(filePath)
+  }
   
   return { ...result, files: filteredFiles }
 }
 
 /**
  * Filter grep tool results to remove matches from blocked files
+ * Matches from redacted files and files behind prompt rules are removed too, since they show file content
  * 
- * @param result - Original grep result object
- * @param ignoreLib - Ignore instance with loaded patterns
- * @param projectRoot - Absolute path to project root
- * @returns Filtered result with matches from blocked files removed
+ * @param result - Original grep output text, or result object with a matches array
+ * @param policy - Access policy of the project
+ * @param report - Called for every removed file or match
+ * @returns Filtered result with matches from blocked files removed, or null if the result is not grep output
  */
-function filterGrepResults(
-  result: any,
-  ignoreLib: ReturnType<typeof ignore>,
-  projectRoot: string
-): any {
-  if (!result?.matches || !Array.isArray(result.matches)) return result
-  
-  const filteredMatches = result.matches.filter((match: any) => {
-    if (!match?.file) return true  // Keep matches without file info
+async function filterGrepResults(result: unknown, policy: Policy, report: DenialReporter): Promise<string | GrepResultObject | null> {
+  if (typeof result === "string") {
+    const output = parseGrepOutput(result)
+    if (!output) return null
     
-    try {
-      const normalized = normalizePath(match.file, projectRoot, false)
-      return !ignoreLib.ignores(normalized)
-    } catch {
-      // If normalization fails, filter out the match (safer approach)
-      return false
+    const files: GrepFile[] = []
+    for (const file of output.files) {
+      if (!await isResultPathBlocked(file.path, policy, report, false)) files.push(file)
     }
-  })
+    
+    return formatGrepOutput({...output, files})
+  }
+  
+  if (!isGrepResultObject(result)) return null
+  
+  const filteredMatches: GrepResultObject["matches"] = []
+  for (const match of result.matches) {
+    // Keep matches without file info
+    if (!match?.file || !await isResultPathBlocked(match.file, policy, report, false)) filteredMatches.push(match)
+  }
   
   return { ...result, matches: filteredMatches }
 }
 
+/**
+ * Remove blocked entries from a list tree
+ *
+ * @param entries - Entries of one directory
+ * @param directory - Path of that directory
+ * @param policy - Access policy of the project
+ * @param report - Called for every removed file or directory
+ * @returns Entries left, with their subtrees filtered
+ */
+async function filterListEntries(entries: ListEntry[], directory: string, policy: Policy, report: DenialReporter): Promise<ListEntry[]> {
+  const filteredEntries: ListEntry[] = []
+  
+  for (const entry of entries) {
+    const isDirectory = entry.name.endsWith("/")
+    const entryPath = join(directory, entry.name)
+    if (await isResultPathBlocked(entryPath, policy, report, true, isDirectory ? "directory" : "file")) continue
+    
+    const children = await filterListEntries(entry.children, entryPath, policy, report)
+    // A directory emptied by filtering (e.g. by "/certs/**") would only show where blocked files are
+    if (entry.children.length > 0 && children.length === 0) continue
+    
+    filteredEntries.push({...entry, children})
+  }
+  
+  return filteredEntries
+}
+
+/**
+ * Filter list tool output to remove blocked entries
+ *
+ * A blocked directory is removed together with everything below it, and so
+ * is a directory whose entries were all removed. Redacted files stay listed,
+ * since only names are shown.
+ *
+ * @example
+ * // "/project/\n  certs/\n    server.key\n  README.md\n"
+ * // becomes "/project/\n  README.md\n" when /certs/** is blocked
+ *
+ * @param result - Original list output text
+ * @param policy - Access policy of the project
+ * @param report - Called for every removed file or directory
+ * @returns Filtered output with blocked entries removed, or null if the result is not list output
+ */
+async function filterListResults(result: unknown, policy: Policy, report: DenialReporter): Promise<string | null> {
+  const output = typeof result === "string" ? parseListOutput(result) : null
+  if (!output) return null
+  
+  return formatListOutput({...output, entries: await filterListEntries(output.entries, output.directory, policy, report)})
+}
+
 /**
  * Filter tool results to remove paths blocked by .ignore patterns
- * Used in post-execution hook to prevent glob/grep from exposing sensitive files
+ * Used in post-execution hook to prevent glob/grep/list from exposing sensitive files
  *
- * @param tool - Tool name (glob or grep)
+ * @param format - Output format of the tool
  * @param result - Original tool result
- * @param projectRoot - Absolute path to project root
- * @returns Filtered result with blocked paths removed
+ * @param policy - Access policy of the project
+ * @param report - Called for every removed path
+ * @returns Filtered result with blocked paths removed, or null if the result cannot be parsed
+ */
+async function filterResults(format: OutputFormat, result: unknown, policy: Policy, report: DenialReporter): Promise<SearchResult | null> {
+  // Filter based on output format
+  if (format === "glob") return await filterGlobResults(result, policy, report)
+  if (format === "grep") return await filterGrepResults(result, policy, report)
+  return await filterListResults(result, policy, report)
+}
+
+/**
+ * Mask secret values in the output of a read tool call
+ * Fails closed: output that is not text is replaced entirely
+ *
+ * @param context - After-hook output of the read tool (output text and metadata)
+ * @param messages - Configured message templates, for output that is withheld
+ */
+function redactReadOutput(context: {output: unknown, metadata?: {preview?: unknown}}, messages?: MessageTemplates): void {
+  context.output = typeof context.output === "string"
+    ? redactSecrets(context.output)
+    : denialMessage({code: "withheld", tool: "read"}, messages)
+  
+  // The read tool also returns the first lines of the file as a preview
+  if (typeof context.metadata?.preview === "string") context.metadata.preview = redactSecrets(context.metadata.preview)
+}
+
+/** Samples of a search pattern checked at a time */
+const SAMPLE_BATCH_SIZE = 8
+
+/** Argument holding the glob pattern of each search tool */
+const SEARCH_PATTERN_ARGS: Record<string, string> = {glob: "pattern", grep: "include"}
+
+/**
+ * Deny a search whose pattern can only match blocked files
+ *
+ * Without this, glob("certs/**\/*.key") or grep with include "*.pem" would
+ * run over blocked data and come back empty after filtering, leaving the agent
+ * guessing. The base directory of the pattern is checked like a bash argument
+ * (including rules that block everything inside it), then a made-up match for
+ * every brace alternative (up to 64, checked in small batches); the search
+ * is denied if the base or every sample is blocked. Patterns that reach any depth ("**" before the last segment, or
+ * a grep include) are left to result filtering when a negation rule may
+ * re-include files below the base. Redacted files may be globbed (names only), not grepped; files
+ * behind prompt rules may be searched, their content is filtered from results.
+ *
+ * @param tool - glob or grep
+ * @param args - Tool arguments (path and pattern or include)
+ * @param policy - Access policy of the project
+ * @param deny - Rejects the call for the denied pattern
+ * @throws AccessDeniedError naming the pattern and the rule that blocks its matches
+ */
+async function checkSearchPattern(tool: string, args: Record<string, unknown>, policy: Policy, deny: Denier): Promise<void> {
+  const pattern = args[SEARCH_PATTERN_ARGS[tool] ?? ""]
+  if (typeof pattern !== "string" || pattern === "") return
+  
+  const searchPath = (args.path as string) || "."
+  const inSearchPath = (path: string) => isAbsolute(path) ? path : join(searchPath, path)
+  const displayPattern = inSearchPath(pattern)
+  // An include filter matches file names at any depth below the search path
+  const {base, samples, anyDepth} = analyzeSearchPattern(tool === "grep" && !pattern.startsWith("**/") ? `**/${pattern}` : pattern)
+  
+  const denyPattern = (check: PathCheck): never => deny(checkDenial(displayPattern, {...check, normalizedPath: displayPattern}))
+  const isPermitted = ({decision}: PathCheck) =>
+    decision === "allowed" || decision === "prompt" || (decision === "redacted" && tool === "glob")
+  
+  // The search path itself is the base of patterns that start with a wildcard
+  const baseCheck = await checkCallPath(inSearchPath(base), policy, "unknown", "read", deny)
+  if (!isPermitted(baseCheck)) denyPattern(baseCheck)
+  
+  // Samples cannot stand for every directory such a pattern reaches: a negation may re-include files in one of them
+  if (anyDepth && await policy.mayReinclude(inSearchPath(base))) return
+  
+  // Patterns with too many alternatives have no samples and are left to result filtering
+  let firstCheck: PathCheck | undefined
+  for (let start = 0; start < samples.length; start += SAMPLE_BATCH_SIZE) {
+    const batch = samples.slice(start, start + SAMPLE_BATCH_SIZE)
+    const checks = await Promise.all(batch.map(sample => checkCallPath(inSearchPath(sample), policy, "file", "read", deny)))
+    if (checks.some(isPermitted)) return
+    firstCheck ??= checks[0]
+  }
+  if (firstCheck) denyPattern(firstCheck)
+}
+
+/**
+ * Find the agent running a session
+ * Tool calls are made by the session's latest assistant message, which records its agent as mode
+ *
+ * @param client - OpenCode SDK client
+ * @param sessionID - Session ID
+ * @returns Agent name, or undefined if the session has no assistant message or cannot be read
+ */
+async function findSessionAgent(client: PluginInput["client"], sessionID: string): Promise<string | undefined> {
+  try {
+    const {data} = await client.session.messages({path: {id: sessionID}})
+    for (const {info} of (data ?? []).toReversed()) {
+      if (info.role === "assistant") return info.mode
+    }
+  } catch {
+    // Unknown agent: the project rules apply
+  }
+  return undefined
+}
+
+/**
+ * Check if a session was started by another agent
+ * Messages of subagent sessions are written by the parent agent, so they never carry the user's answers
+ *
+ * @param client - OpenCode SDK client
+ * @param sessionID - Session ID
+ * @returns true if the session has a parent or cannot be read
  */
-async function filterResults(
-  tool: string,
-  result: any,
-  projectRoot: string
-): Promise<any> {
-  // Only filter glob and grep tools
-  if (tool !== "glob" && tool !== "grep") return result
-  
-  // Load ignore patterns
-  const ignoreLib = await loadIgnore(projectRoot)
-  if (!ignoreLib) return result  // No filtering if no .ignore
-  
-  // Filter based on tool type
-  if (tool === "glob") {
-    return filterGlobResults(result, ignoreLib, projectRoot)
+async function isSubagentSession(client: PluginInput["client"], sessionID: string): Promise<boolean> {
+  try {
+    const {data} = await client.session.get({path: {id: sessionID}})
+    return !data || data.parentID !== undefined
+  } catch {
+    return true
   }
+}
+
+/** Device files that shell commands commonly read from or redirect to */
+const DEVICE_PATH = /^\/dev\/(null|zero|u?random|tty|std(in|out|err)|fd\/\d+)$/
+
+/**
+ * Find the first blocked path referenced by a bash command
+ *
+ * Shell commands can read whole directories ("grep -r", "ls", "tar"), so each
+ * argument is checked as a file, as a directory, and for rules that block
+ * everything inside it (e.g. "/certs/**"), both as written and at its real
+ * location when it goes through a symlink. Paths the command writes
+ * (redirections, rm, cp destinations...) are checked against write rules.
+ * Redacted files are denied: command output cannot be masked. Grants and
+ * approvals of prompt rules apply as for other tools.
+ *
+ * @param command - Shell command text from the bash tool
+ * @param policy - Access policy of the project
+ * @param strict - Deny commands that cannot be confidently parsed
+ * @param settle - Applies the user's grants and approvals
+ * @param deny - Rejects the call for the denied path
+ * @throws AccessDeniedError if the command references a denied path or cannot be verified in strict mode
+ */
+async function checkShellCommand(
+  command: string,
+  policy: Policy,
+  strict: boolean,
+  settle: AccessResolver,
+  deny: Denier
+): Promise<void> {
+  const analysis = analyzeShellCommand(command)
   
-  if (tool === "grep") {
-    return filterGrepResults(result, ignoreLib, projectRoot)
+  const accesses = [
+    ...analysis.paths.map(path => ({path, operation: "read" as const})),
+    ...analysis.writes.map(path => ({path, operation: "write" as const}))
+  ]
+  
+  for (const {path, operation} of accesses) {
+    if (DEVICE_PATH.test(path)) continue
+    
+    const check = await settle(path, await checkCallPath(path, policy, "unknown", operation, deny))
+    if (check.decision !== "allowed") deny(checkDenial(path, check))
   }
   
-  return result
+  if (strict && !analysis.confident) {
+    deny({code: "parse-failure", hint: "Use simpler commands without variables, globs or inline scripts."})
+  }
 }
 
 interface PathInfo {
   path: string
   isDirectory: boolean
+  operation: Operation
+}
+
+/** Tools that apply patch text to any number of files */
+const PATCH_TOOLS = new Set(["patch", "apply_patch"])
+
+/**
+ * Extract the files an edit or patch call touches
+ *
+ * @param tool - Tool name (multiedit, patch or apply_patch)
+ * @param args - Tool arguments object
+ * @returns PathInfo for every target file, or null if patch text names no file or has headers that cannot be parsed
+ */
+function extractMultiFilePaths(tool: string, args: Record<string, unknown>): PathInfo[] | null {
+  const file = (path: string, operation: Operation): PathInfo => ({path, isDirectory: false, operation})
+  
+  if (tool === "multiedit") {
+    const edits = Array.isArray(args.edits) ? args.edits : []
+    const paths = [args.filePath, ...edits.map(edit => edit?.filePath)].filter(path => typeof path === "string" && path !== "")
+    return [...new Set(paths as string[])].map(path => file(path, "write"))
+  }
+  
+  const text = [args.patchText, args.patch, args.input].find(value => typeof value === "string") as string | undefined
+  const analysis = analyzePatch(text ?? "")
+  if (!analysis.confident) return null
+  
+  return [...analysis.paths.map(path => file(path, "read")), ...analysis.writes.map(path => file(path, "write"))]
 }
 
 /**
- * Extract path and type from tool arguments
+ * Extract every path a tool call touches, with its type
  *
  * Maps OpenCode native tools to their path arguments and determines
  * if they operate on files or directories. This is critical for
  * proper ignore pattern matching (directories need trailing slash).
+ * The type is what the tool expects; paths that exist are checked as what they are on disk.
+ * The operation decides which rules apply (read-only rules only restrict write).
  *
  * Supported tools:
- * - File operations: read, write, edit (args.filePath)
- * - Search operations: glob, grep (args.path, defaults to ".")
- * - List operations: list (args.path, defaults to ".")
+ * - File operations: read (read), write, edit (write) - args.filePath
+ * - Multi-file operations: multiedit (write) - args.filePath and args.edits[].filePath
+ * - Patches: patch, apply_patch (write) - every file named in the patch text
+ * - Search operations: glob, grep (read) - args.path, defaults to "."
+ * - List operations: list (read) - args.path, defaults to "."
  *
  * @param tool - Tool name
  * @param args - Tool arguments object
- * @returns PathInfo with path and directory flag, or null if tool unsupported
+ * @returns PathInfo for every touched path, empty if tool unsupported, null if a patch cannot be parsed
  */
-function extractPathFromTool(tool: string, args: Record<string, unknown>): PathInfo | null {
+function extractPathsFromTool(tool: string, args: Record<string, unknown>): PathInfo[] | null {
   // File operations - operate on individual files
-  if (tool === "read") return args.filePath ? {path: args.filePath as string, isDirectory: false} : null
-  if (tool === "write") return args.filePath ? {path: args.filePath as string, isDirectory: false} : null
-  if (tool === "edit") return args.filePath ? {path: args.filePath as string, isDirectory: false} : null
+  if (tool === "read") return args.filePath ? [{path: args.filePath as string, isDirectory: false, operation: "read"}] : []
+  if (tool === "write") return args.filePath ? [{path: args.filePath as string, isDirectory: false, operation: "write"}] : []
+  if (tool === "edit") return args.filePath ? [{path: args.filePath as string, isDirectory: false, operation: "write"}] : []
+  
+  // Multi-file operations - the call is denied if any target is blocked
+  if (tool === "multiedit" || PATCH_TOOLS.has(tool)) return extractMultiFilePaths(tool, args)
   
   // Directory operations - search/list within directories
   // Default to "." (project root) if path not specified
-  if (tool === "glob") return {path: (args.path as string) || ".", isDirectory: true}
-  if (tool === "grep") return {path: (args.path as string) || ".", isDirectory: true}
-  if (tool === "list") return {path: (args.path as string) || ".", isDirectory: true}
+  if (tool === "glob") return [{path: (args.path as string) || ".", isDirectory: true, operation: "read"}]
+  if (tool === "grep") return [{path: (args.path as string) || ".", isDirectory: true, operation: "read"}]
+  if (tool === "list") return [{path: (args.path as string) || ".", isDirectory: true, operation: "read"}]
   
   // Unknown tool - no path checking needed
-  return null
+  return []
 }
 
 /**
  * OpenCode plugin to restrict AI access using .ignore patterns
  *
- * Intercepts native OpenCode tools (read, write, edit, glob, grep, list)
+ * Intercepts native OpenCode tools (read, write, edit, multiedit, patch, glob, grep, list, bash)
  * and blocks access to paths matching patterns in .ignore file.
  *
  * Features:
  * - Gitignore-style patterns via ignore library
+ * - "# @read-only" and "# @no-read" sections restrict only write or only read
+ * - "# @redact" sections mask secret values in read output and deny writes
+ * - "# @prompt" sections ask the user, who answers once, for the session or always
+ * - /ignore-grant, /ignore-grants and /ignore-revoke commands for temporary exceptions
  * - Graceful degradation if .ignore missing
  * - Project root (.) always accessible
+ * - Checked tools, fail mode and denial messages set in .opencode/ignore.json
+ * - Bash commands analyzed for path arguments
+ *   (set strictBash to also deny commands that cannot be parsed)
+ * - Custom and MCP tools protected through configured path arguments and output formats
+ * - Rule profiles per agent (build, plan, subagents), selected from the session's latest message
+ * - Optional JSONL audit log of denied and filtered accesses
+ * - Denials name the ignore file, line and pattern that decided them
+ *   (set debug to log every decision)
  *
  * @example
  * // .ignore file
@@ -240,36 +607,371 @@ export const OpenCodeIgnore: Plugin = async ({project, client, $, directory, wor
   // Prefer worktree (git root) over directory for multi-worktree repos
   const projectRoot = worktree || directory
   
+  const config = await loadConfig(projectRoot)
+  
+  // Rules are compiled once per plugin instance and reloaded only when an .ignore file changes
+  const defaultPolicy = await createPolicy(projectRoot, {config})
+  
+  // Policies of agent profiles, created on first use
+  const profilePolicies = new Map<string, Policy>()
+  
+  // Agent of each session, kept current by message events
+  const sessionAgents = new Map<string, string>()
+  
+  // Denied and filtered accesses are recorded when the audit log is enabled
+  const audit = openAuditLog(config.auditLog, projectRoot)
+  
+  // Strict mode denies bash commands whose paths are only known at runtime
+  const strictBash = environmentSwitch("OPENCODE_IGNORE_STRICT_BASH") ?? config.strictBash ?? false
+  
+  // Debug mode logs every decision with the rule that made it
+  const debug = environmentSwitch("OPENCODE_IGNORE_DEBUG") ?? config.debug ?? false
+  
+  // Fail-open lets through what the plugin cannot verify, with a warning
+  const failOpen = config.failMode === "open"
+  
+  // Native tools outside the enforced list are not checked at all
+  const enforcedTools = new Set(config.enforcedTools ?? NATIVE_TOOLS)
+  const isEnforced = (tool: string) => enforcedTools.has(tool) || !NATIVE_TOOLS.includes(tool)
+  
+  // Read calls of redacted files, whose output the after hook masks
+  const redactedCalls = new Set<string>()
+  
+  // User answers for files behind prompt rules
+  const approvals = await createApprovals(defaultApprovalsFile(), projectRoot)
+  
+  // Temporary exceptions made by the user, shared with the command-line tool
+  const grants = createGrants(defaultGrantsFile(), projectRoot)
+  
+  /**
+   * Pick the policy for the agent running a session
+   * Sessions of agents without a profile, or whose agent cannot be found, use the project rules
+   *
+   * @param sessionID - Session that triggered the tool call
+   * @returns Policy of the agent's profile, or the default policy
+   */
+  const policyFor = async (sessionID: string): Promise<Policy> => {
+    if (!config.profiles || Object.keys(config.profiles).length === 0) return defaultPolicy
+    
+    if (!sessionAgents.has(sessionID)) {
+      const agent = await findSessionAgent(client, sessionID)
+      if (agent !== undefined) sessionAgents.set(sessionID, agent)
+    }
+    
+    const agent = sessionAgents.get(sessionID)
+    if (agent === undefined || !Object.hasOwn(config.profiles, agent)) return defaultPolicy
+    
+    let policy = profilePolicies.get(agent)
+    if (!policy) {
+      policy = await createPolicy(projectRoot, {config, agent})
+      profilePolicies.set(agent, policy)
+    }
+    return policy
+  }
+  
+  /**
+   * Show a toast in the OpenCode TUI (best effort: there may be no TUI)
+   * @param message - Toast text
+   * @param variant - Toast style
+   */
+  const notify = (message: string, variant: "info" | "warning") => {
+    client.tui?.showToast({body: {title: "opencode-ignore", message, variant}}).catch(() => {})
+  }
+  
+  /**
+   * Create the resolver of one tool call
+   * A path behind a prompt rule without an answer waits for the user's next reply; the user is told with a toast
+   *
+   * @param call - Tool call identifiers from the hook input
+   * @returns Resolver for the checks of the call
+   */
+  const settler = (call: {tool: string, sessionID: string, callID: string}): AccessResolver => async (path, check) => {
+    if (check.decision === "allowed" || check.decision === "outside-root") return check
+    
+    const grant = await grants.match(call.sessionID, check.normalizedPath)
+    if (grant) {
+      reporter(call, "granted")(path, check, grant)
+      return {...check, decision: "allowed"}
+    }
+    
+    if (check.decision !== "prompt") return check
+    
+    const answer = approvals.decide(call.sessionID, check.normalizedPath)
+    if (answer === "allow") return {...check, decision: "allowed"}
+    if (answer === "deny") return {...check, decision: "blocked"}
+    
+    if (approvals.request(call.sessionID, check.normalizedPath)) {
+      notify(`The agent asks to access ${check.normalizedPath}. Reply "allow once", "allow session", "allow always" or "deny".`, "warning")
+    }
+    return check
+  }
+  
+  /**
+   * Run a grant command typed by the user
+   * @param command - Parsed command
+   * @param sessionID - Session the command was typed in
+   * @returns Result to show the user and the agent
+   */
+  const runGrantCommand = async ({name, args}: GrantCommand, sessionID: string): Promise<string> => {
+    try {
+      if (name === "grants") {
+        const active = await grants.list()
+        return active.length > 0 ? `Active grants:\n${active.map(formatGrant).join("\n")}` : "No active grants."
+      }
+      
+      if (name === "revoke") {
+        if (args.length !== 1) return "Usage: /ignore-revoke <id>"
+        const revoked = await grants.revoke(args[0]!)
+        return revoked ? `Revoked grant ${revoked.id} (${revoked.pattern}).` : `No active grant ${args[0]}.`
+      }
+      
+      // Without a duration the grant ends with the session
+      const [pattern = "", limit, ...extra] = args
+      const duration = limit === undefined ? undefined : parseDuration(limit)
+      if (duration === null || extra.length > 0) return "Usage: /ignore-grant <pattern> [duration: 30m, 2h, 1d]"
+      
+      const grant = await grants.add(duration === undefined ? {pattern, sessionID} : {pattern, duration})
+      const scope = grant.expires ? `until ${grant.expires}` : "for this session"
+      return `Granted access to ${grant.pattern} ${scope} (grant ${grant.id}).`
+    } catch (error) {
+      return `Grant command failed: ${(error as Error).message}.`
+    }
+  }
+  
+  /**
+   * Log a decision through the OpenCode client (debug mode only)
+   * @param tool - Tool name
+   * @param path - Path as given by the tool
+   * @param check - Check result
+   */
+  const logDecision = (tool: string, path: string, check: PathCheck) => {
+    if (!debug) return
+    
+    const rule = check.rule ? ` by ${formatRule(check.rule)}` : ""
+    client.app.log({
+      body: {
+        service: "opencode-ignore",
+        level: "debug",
+        message: `${tool} ${path}: ${check.decision}${rule}`,
+        extra: {tool, path, ...check}
+      }
+    }).catch(() => {})
+  }
+  
+  /**
+   * Log a warning through the OpenCode client (best effort)
+   * @param message - Warning text
+   */
+  const warn = (message: string) => {
+    client.app?.log({body: {service: "opencode-ignore", level: "warn", message}}).catch(() => {})
+  }
+  
+  // Mistakes in ignore files are reported once at startup; a failing lint never stops the plugin from loading
+  await lintIgnoreFiles(projectRoot, config).then(
+    warnings => warnings.forEach(warning => warn(`Ignore file warning: ${formatLintWarning(warning)}`)),
+    () => {}
+  )
+  
+  /**
+   * Create a reporter that records the denials of one tool call in the audit log and debug log
+   * @param call - Tool call identifiers from the hook input
+   * @param decision - denied (call rejected), filtered (removed from results) or granted (allowed by a grant)
+   * @returns Reporter for checkShellCommand and filterResults
+   */
+  const reporter = (call: {tool: string, sessionID: string, callID: string}, decision: "denied" | "filtered" | "granted"): DenialReporter =>
+    (path, check, grant) => {
+      // Granted paths are logged as allowed by the hook
+      if (!grant) logDecision(call.tool, path, check)
+      audit?.record({
+        timestamp: new Date().toISOString(),
+        projectRoot,
+        sessionID: call.sessionID,
+        callID: call.callID,
+        tool: call.tool,
+        path,
+        normalizedPath: check.normalizedPath,
+        decision,
+        reason: check.decision,
+        rule: check.rule ?? null,
+        ...(grant && {grant: {id: grant.id, pattern: grant.pattern}})
+      })
+    }
+  
+  /**
+   * Create the denier of one tool call
+   * @param call - Tool call identifiers from the hook input
+   * @returns Denier that records the denial and throws with the configured message
+   */
+  const denier = (call: {tool: string, sessionID: string, callID: string}): Denier => {
+    const report = reporter(call, "denied")
+    return denial => {
+      const {code, path, normalizedPath, rule} = denial
+      // Calls that could not be checked have no decision to audit
+      if (path !== undefined && normalizedPath !== undefined && code !== "invalid-path" && code !== "parse-failure" && code !== "withheld") {
+        report(path, {decision: code, normalizedPath, rule})
+      }
+      throw new AccessDeniedError({...denial, tool: call.tool}, config.messages)
+    }
+  }
+  
   return {
     /**
-     * Hook that runs before any tool execution
-     * Checks if tool's target path is blocked by .ignore patterns
+     * Hook that receives the OpenCode configuration
+     * Adds the grant slash commands, unless the user defined commands of the same name
      */
-    "tool.execute.before": async ({tool}, {args}) => {
-      const pathInfo = extractPathFromTool(tool, args)
+    config: async config => {
+      config.command = {...GRANT_COMMANDS, ...config.command}
+    },
+    
+    /**
+     * Hook that receives OpenCode events
+     * Tracks the agent of each session: every assistant message records the agent (mode) that wrote it.
+     * Grants of a deleted session are revoked.
+     */
+    event: async ({event}) => {
+      if (event.type === "message.updated" && event.properties.info.role === "assistant") {
+        sessionAgents.set(event.properties.info.sessionID, event.properties.info.mode)
+      }
       
-      // Skip tools that don't operate on paths
-      if (!pathInfo) return
+      if (event.type === "session.deleted") {
+        await grants.revokeSession(event.properties.info.id).catch(() => {})
+      }
+    },
+    
+    /**
+     * Hook that receives every user message
+     * A reply like "allow session" answers the approval requests waiting in the session;
+     * a grant command is run and replaced by its result, which the agent then sees.
+     * Messages of subagent sessions are ignored, so an agent cannot approve its own requests.
+     */
+    "chat.message": async (_input, {message, parts}) => {
+      const textParts = parts.filter(part => part.type === "text" && !part.synthetic)
+      const text = textParts.map(part => part.type === "text" ? part.text : "").join("")
+      const command = parseGrantCommand(text)
+      const answer = command ? null : parseApprovalAnswer(text)
+      if (!command && !answer) return
       
-      // Always allow project root to prevent blocking entire project
-      if (pathInfo.path === ".") return
+      if (await isSubagentSession(client, message.sessionID)) return
       
-      // Check if path matches any ignore pattern
-      if (await isPathBlocked(pathInfo.path, projectRoot, pathInfo.isDirectory)) {
-        throw new Error(`Access denied: ${pathInfo.path} blocked by ignore file. Do NOT try to read this. Access restricted.`)
+      if (answer) {
+        await approvals.answer(message.sessionID, answer)
+        return
+      }
+      
+      const result = await runGrantCommand(command!, message.sessionID)
+      notify(result, "info")
+      textParts.forEach((part, index) => {
+        if (part.type === "text") part.text = index === 0 ? `opencode-ignore: ${result}` : ""
+      })
+    },
+    
+    /**
+     * Hook that runs before any tool execution
+     * Checks if any of the tool's target paths is blocked by .ignore patterns
+     */
+    "tool.execute.before": async (input, {args}) => {
+      const {tool} = input
+      if (!isEnforced(tool)) return
+      
+      const deny = denier(input)
+      const settle = settler(input)
+      
+      try {
+        const policy = await policyFor(input.sessionID)
+        
+        // Shell commands can name any number of paths
+        if (tool === "bash") {
+          if (typeof args.command !== "string") return
+          await policy.refresh()
+          return await checkShellCommand(args.command, policy, strictBash, settle, deny)
+        }
+        
+        // Native arguments plus those configured for custom and MCP tools
+        const toolConfigs = findToolConfigs(config.tools, tool)
+        const nativePaths = extractPathsFromTool(tool, args)
+        if (nativePaths === null) {
+          if (!failOpen) deny({code: "parse-failure", hint: `Use a unified diff or "*** Begin Patch" text.`})
+          warn(`${tool} call allowed without verification (failMode open): target files not found in the patch`)
+        }
+        const paths = [...nativePaths ?? [], ...extractToolPaths(toolConfigs, args)]
+          // Always allow project root to prevent blocking entire project
+          .filter(pathInfo => pathInfo.path !== ".")
+        
+        // Skip tools that don't operate on paths
+        if (paths.length === 0 && !SEARCH_PATTERN_ARGS[tool]) return
+        
+        // Pick up edits to .ignore files since the last tool call
+        await policy.refresh()
+        
+        for (const pathInfo of paths) {
+          // Check if path matches any ignore pattern or lies outside the project root
+          const kind = pathInfo.isDirectory ? "directory" : "file"
+          const check = await settle(pathInfo.path, await checkCallPath(pathInfo.path, policy, kind, pathInfo.operation, deny))
+          // Redacted files can be read (output is masked after execution) and searched, never written;
+          // other tools could print their content unmasked
+          const redactedRead = check.decision === "redacted" && pathInfo.operation === "read"
+            && (tool === "read" || outputFormat(tool, toolConfigs) !== undefined)
+          if (redactedRead && tool === "read") redactedCalls.add(input.callID)
+          
+          if (check.decision === "allowed" || redactedRead) {
+            logDecision(tool, pathInfo.path, check)
+          } else {
+            // One blocked target denies the whole call
+            deny(checkDenial(pathInfo.path, check))
+          }
+        }
+        
+        // Searches are also denied when their pattern can only match blocked files
+        if (SEARCH_PATTERN_ARGS[tool]) await checkSearchPattern(tool, args, policy, deny)
+      } catch (error) {
+        // Denials always stand; bash has its own strict mode for commands it cannot parse
+        if (!failOpen || error instanceof AccessDeniedError || tool === "bash") throw error
+        warn(`${tool} call allowed without verification (failMode open): ${(error as Error).message}`)
+      } finally {
+        await audit?.flush()
       }
     },
     
     /**
      * Hook that runs after tool execution
-     * Filters glob/grep results to remove blocked files
+     * Filters glob/grep/list results to remove blocked files and masks secrets read from redacted files,
+     * writing the result back to the tool's output
      */
-    "tool.execute.after": async ({tool}, context) => {
-      // Only process glob and grep tools
-      if (tool !== "glob" && tool !== "grep") return context.output
+    "tool.execute.after": async (input, context) => {
+      const {tool} = input
+      if (!isEnforced(tool)) return
       
-      // Filter results to remove blocked files
-      return await filterResults(tool, context.output, projectRoot)
+      if (tool === "read" && redactedCalls.delete(input.callID)) return redactReadOutput(context, config.messages)
+      
+      // Only process tools that return paths
+      const format = outputFormat(tool, findToolConfigs(config.tools, tool))
+      if (!format) return
+      
+      const policy = await policyFor(input.sessionID)
+      
+      // Pick up edits to .ignore files since the last tool call
+      await policy.refresh()
+      
+      // Older tool versions return result objects, so the output is text only by the hook's type
+      const result: {output: unknown} = context
+      
+      try {
+        // Filter results to remove blocked files, writing them back for the tool's text output
+        const filtered = await filterResults(format, result.output, policy, reporter(input, "filtered"))
+        if (filtered !== null) {
+          result.output = filtered
+          return
+        }
+        
+        // Output that cannot be parsed may name blocked files
+        if (failOpen) {
+          warn(`${tool} output passed through without verification (failMode open)`)
+          return
+        }
+        context.output = denialMessage({code: "withheld", tool}, config.messages)
+      } finally {
+        await audit?.flush()
+      }
     }
   }
 }
@@ -0,0 +1,91 @@
+import { test, expect, describe, beforeAll } from "bun:test"
+import { formatLintWarning, lintIgnoreContent, lintIgnoreFiles } from "./lint"
+
+/** Codes and lines of the warnings for ignore file content */
+function lint(content: string, paths: string[] | null = null) {
+  return lintIgnoreContent(content, ".ignore", { paths }).map(({ code, line }) => ({ code, line }))
+}
+
+describe("lintIgnoreContent", () => {
+  test("reports negations inside an excluded directory", () => {
+    expect(lint("/keys/\n!/keys/pub.pem\n")).toEqual([{ code: "ineffective-negation", line: 2 }])
+    expect(lint("!keys/pub.pem\nkeys/\n")).toEqual([{ code: "ineffective-negation", line: 1 }])
+    expect(lint("/certs/**\n!/certs/sub/server.crt\n")).toEqual([{ code: "ineffective-negation", line: 2 }])
+  })
+
+  test("accepts negations that can re-include their target", () => {
+    expect(lint("/certs/**\n!/certs/public.crt\n")).toEqual([])
+    expect(lint("*.key\n!public.key\n")).toEqual([])
+    expect(lint("/keys/\n!/keys/\n!/keys/pub.pem\n")).toEqual([])
+  })
+
+  test("names the directory and the rule that excludes it", () => {
+    const [warning] = lintIgnoreContent("/certs/**\n!/certs/sub/*.crt\n", ".ignore")
+    expect(formatLintWarning(warning!)).toBe(
+      ".ignore:2: !/certs/sub/*.crt: cannot re-include anything: its directory certs/sub/ is excluded by line 1 (/certs/**)"
+    )
+  })
+
+  test("reports duplicate patterns within a section", () => {
+    expect(lint("*.key\n.env\n*.key  \n")).toEqual([{ code: "duplicate", line: 3 }])
+    expect(lint("*.key\n# @read-only\n*.key\n")).toEqual([])
+    expect(lint("# comment\n\n# comment\n\n")).toEqual([])
+  })
+
+  test("reports patterns that match every path", () => {
+    expect(lint("*\n")).toEqual([{ code: "blocks-everything", line: 1 }])
+    expect(lint("src/\n**\n")).toEqual([{ code: "blocks-everything", line: 2 }])
+    expect(lint("/*\n")).toEqual([{ code: "blocks-everything", line: 1 }])
+    expect(lint("*\n!src/\n")).toEqual([])
+    expect(lintIgnoreContent("*\n", "src/.ignore", { projectWide: false })).toEqual([])
+  })
+
+  test("reports patterns that match nothing in the project", () => {
+    const paths = ["src/", "src/app.ts", "certs/", "certs/server.key"]
+    expect(lint("*.key\n*.pem\ncerts/\n!src/app.ts\n!src/main.ts\n", paths)).toEqual([
+      { code: "unmatched", line: 2 },
+      { code: "unmatched", line: 5 }
+    ])
+  })
+})
+
+describe("lintIgnoreFiles", () => {
+  let root: string
+
+  beforeAll(async () => {
+    root = "/tmp/test-lint-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+    await Bun.write(root + "/.ignore", "*.key\n*.key\n")
+    await Bun.write(root + "/.aiignore", "*.pem\n")
+    await Bun.write(root + "/.ignore.plan", "*\n")
+    await Bun.write(root + "/packages/web/.ignore", "*.key\n/dist/\n")
+    await Bun.write(root + "/packages/web/server.key", "")
+    await Bun.write(root + "/global-ignore", "/keys/\n!/keys/a.pem\n")
+  })
+
+  test("checks the global file and the ignore files of the project tree", async () => {
+    const warnings = await lintIgnoreFiles(root, { globalIgnoreFile: root + "/global-ignore" })
+
+    expect(warnings.map(formatLintWarning)).toEqual([
+      "global-ignore:1: /keys/: matches no file or directory in the project",
+      "global-ignore:2: !/keys/a.pem: cannot re-include anything: its directory keys/ is excluded by line 1 (/keys/)",
+      "global-ignore:2: !/keys/a.pem: matches no file or directory in the project",
+      ".aiignore:1: *.pem: matches no file or directory in the project",
+      ".ignore:2: *.key: duplicate of line 1",
+      "packages/web/.ignore:2: /dist/: matches no file or directory in the project"
+    ])
+  })
+
+  test("includes the ignore files of agent profiles", async () => {
+    const warnings = await lintIgnoreFiles(root, {
+      globalIgnoreFile: false,
+      ignoreFiles: [".ignore"],
+      profiles: { plan: { ignoreFiles: [".ignore.plan"] } }
+    })
+
+    expect(warnings.map(({ file, code }) => `${file} ${code}`)).toEqual([
+      ".ignore duplicate",
+      ".ignore.plan blocks-everything",
+      "packages/web/.ignore unmatched"
+    ])
+  })
+})
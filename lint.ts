@@ -0,0 +1,234 @@
+import ignore, {type Ignore} from "ignore"
+import {basename, join, relative} from "path"
+import {detectIgnoreCase, isOutsideRelativePath} from "./canonical"
+import {
+  globalIgnorePath,
+  ignoreFileLines,
+  ignoreFileNames,
+  type IgnoreLine,
+  type PluginConfig,
+  type RuleClass
+} from "./engine"
+import {walkTree} from "./tree"
+
+/**
+ * Kind of mistake a lint warning reports
+ * - ineffective-negation: a negation inside a directory that stays excluded, so it re-includes nothing
+ * - duplicate: a pattern written twice in the same section
+ * - unmatched: a pattern that matches no file or directory in the project
+ * - blocks-everything: a pattern that matches every path, with no negation after it
+ */
+export type LintCode = "ineffective-negation" | "duplicate" | "unmatched" | "blocks-everything"
+
+/**
+ * Problem found in an ignore file
+ */
+export interface LintWarning {
+  code: LintCode
+  /** Ignore file: relative to project root, absolute outside it */
+  file: string
+  /** 1-based line of the pattern */
+  line: number
+  /** Pattern as written */
+  pattern: string
+  message: string
+}
+
+/**
+ * Most files and directories listed for the unmatched check
+ * Larger trees are not listed completely, so the check is skipped rather than report rules as unmatched
+ */
+const MAX_LISTED_PATHS = 20_000
+
+/** Path no real project contains, used to tell whether a pattern matches everything */
+const PROBE_NAME = "opencode-ignore-lint-probe"
+
+/**
+ * List the files and directories of a project
+ *
+ * @param projectRoot - Absolute project root
+ * @returns Relative paths (directories end with "/"), or null if the tree has more than
+ *   MAX_LISTED_PATHS entries or a directory cannot be read
+ */
+async function listProject(projectRoot: string): Promise<string[] | null> {
+  const paths: string[] = []
+
+  try {
+    for await (const path of walkTree(projectRoot, projectRoot)) {
+      paths.push(path)
+      if (paths.length > MAX_LISTED_PATHS) return null
+    }
+  } catch {
+    return null
+  }
+
+  return paths
+}
+
+/**
+ * Tell whether a line holds a pattern
+ * @param pattern - Line of an ignore file
+ * @returns false for blank lines and comments
+ */
+function isPattern(pattern: string): boolean {
+  return pattern.trim() !== "" && !pattern.startsWith("#")
+}
+
+/**
+ * Pattern without the trailing spaces the ignore library drops
+ * @param pattern - Line of an ignore file
+ * @returns Pattern as it is matched, for comparing lines
+ */
+function trimPattern(pattern: string): string {
+  return pattern.replace(/(?<!\\)\s+$/, "")
+}
+
+/**
+ * Directories a negation's target lies in, as far as the pattern spells them out
+ *
+ * @example
+ * negatedDirectories("!/certs/sub/*.crt") // ["certs/", "certs/sub/"]
+ * negatedDirectories("!*.crt") // []
+ *
+ * @param pattern - Negation pattern ("!...")
+ * @returns Directories relative to the ignore file, outermost first
+ */
+function negatedDirectories(pattern: string): string[] {
+  const body = trimPattern(pattern.slice(1))
+  // Without a slash before the end the pattern matches at any depth, so it names no directory
+  if (!body.replace(/\/$/, "").includes("/")) return []
+
+  const segments = body.replace(/^\//, "").replace(/\/$/, "").split("/")
+  const literal = segments.findIndex(segment => /[*?[\\]/.test(segment))
+  const directories = segments.slice(0, literal === -1 ? -1 : literal)
+
+  return directories.map((_, index) => directories.slice(0, index + 1).join("/") + "/")
+}
+
+/**
+ * Check the lines of one ignore file
+ *
+ * A negation is ineffective when a directory it names is excluded by the same
+ * file: directories are decided before their contents, so nothing inside an
+ * excluded directory can be re-included (e.g. "/keys/" then "!/keys/pub.pem").
+ *
+ * @param content - Ignore file content
+ * @param file - Ignore file as shown in warnings
+ * @param options.paths - Project paths relative to the ignore file's directory, or null to skip the unmatched check
+ * @param options.projectWide - The file applies to the whole project (root or global file)
+ * @param options.ignorecase - Match patterns regardless of case
+ * @returns Warnings in line order
+ */
+export function lintIgnoreContent(
+  content: string,
+  file: string,
+  {paths = null, projectWide = true, ignorecase = false}: {paths?: string[] | null, projectWide?: boolean, ignorecase?: boolean} = {}
+): LintWarning[] {
+  const lines = ignoreFileLines(content).filter(({pattern}) => isPattern(pattern))
+  const warnings: LintWarning[] = []
+  const warn = ({line, pattern}: IgnoreLine, code: LintCode, message: string) =>
+    warnings.push({code, file, line, pattern, message})
+
+  const byClass = new Map<RuleClass, IgnoreLine[]>()
+  for (const entry of lines) {
+    for (const ruleClass of entry.classes) byClass.set(ruleClass, [...byClass.get(ruleClass) ?? [], entry])
+  }
+  const classRules = new Map<RuleClass, Ignore>()
+  for (const [ruleClass, entries] of byClass) {
+    const rules = ignore({ignorecase})
+    for (const {line, pattern} of entries) rules.add({pattern, mark: String(line)})
+    classRules.set(ruleClass, rules)
+  }
+
+  const seen = new Map<string, number>()
+
+  for (const entry of lines) {
+    const {line, pattern, classes} = entry
+    const negated = pattern.startsWith("!")
+
+    const key = `${classes.join(",")}:${trimPattern(pattern)}`
+    const first = seen.get(key)
+    if (first !== undefined) warn(entry, "duplicate", `duplicate of line ${first}`)
+    else seen.set(key, line)
+
+    if (negated) {
+      const excluded = negatedDirectories(pattern).flatMap(directory => classes.flatMap(ruleClass => {
+        const {ignored, rule} = classRules.get(ruleClass)!.test(directory)
+        return ignored && rule ? [{directory, rule}] : []
+      }))[0]
+      if (excluded) {
+        warn(entry, "ineffective-negation",
+          `cannot re-include anything: its directory ${excluded.directory} is excluded by line ${excluded.rule.mark} (${excluded.rule.pattern})`)
+      }
+    }
+
+    const matcher = ignore({ignorecase}).add(negated ? pattern.slice(1) : pattern)
+
+    if (!negated && projectWide && matcher.ignores(PROBE_NAME) && matcher.ignores(`${PROBE_NAME}/`)) {
+      const reopened = lines.some(other => other.line > line && other.pattern.startsWith("!") &&
+        other.classes.some(ruleClass => classes.includes(ruleClass)))
+      if (!reopened) warn(entry, "blocks-everything", "matches every path, so it applies to the entire project")
+    }
+
+    if (paths && !paths.some(path => matcher.ignores(path))) {
+      warn(entry, "unmatched", "matches no file or directory in the project")
+    }
+  }
+
+  return warnings
+}
+
+/**
+ * Check the ignore files of a project for patterns that do not do what they seem to
+ * Covers the global user file and every ignore file in the project tree,
+ * for the file names of the configuration and of its profiles
+ *
+ * @param projectRoot - Absolute path to project root
+ * @param config - Plugin configuration
+ * @returns Warnings, grouped by file in loading order
+ */
+export async function lintIgnoreFiles(projectRoot: string, config: PluginConfig = {}): Promise<LintWarning[]> {
+  const settings = [config, ...Object.values(config.profiles ?? {}).map(profile => ({...config, ...profile}))]
+  const fileNames = new Set(settings.flatMap(ignoreFileNames))
+  const ignorecase = config.ignorecase ?? detectIgnoreCase(projectRoot)
+  const paths = await listProject(projectRoot)
+
+  const sources: {path: string, base: string}[] = []
+  for (const globalPath of new Set(settings.map(setting => globalIgnorePath(projectRoot, setting)))) {
+    if (globalPath) sources.push({path: globalPath, base: ""})
+  }
+  const projectFiles = paths
+    ? paths.filter(path => fileNames.has(basename(path)))
+    : [...fileNames]
+  for (const path of projectFiles) {
+    sources.push({path: join(projectRoot, path), base: path.slice(0, path.length - basename(path).length)})
+  }
+
+  const warnings: LintWarning[] = []
+  for (const {path, base} of sources) {
+    const file = Bun.file(path)
+    if (!await file.exists()) continue
+
+    const relativePath = relative(projectRoot, path)
+    warnings.push(...lintIgnoreContent(await file.text(), isOutsideRelativePath(relativePath) ? path : relativePath, {
+      paths: paths && paths.filter(candidate => candidate.startsWith(base) && candidate !== base).map(candidate => candidate.slice(base.length)),
+      projectWide: base === "",
+      ignorecase
+    }))
+  }
+
+  return warnings
+}
+
+/**
+ * Format a warning as one line of text
+ *
+ * @example
+ * // ".ignore:4: !/keys/pub.pem: cannot re-include anything: its directory keys/ is excluded by line 3 (/keys/)"
+ *
+ * @param warning - Lint warning
+ * @returns Location, pattern and message
+ */
+export function formatLintWarning({file, line, pattern, message}: LintWarning): string {
+  return `${file}:${line}: ${pattern}: ${message}`
+}
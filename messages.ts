@@ -0,0 +1,68 @@
+/**
+ * Machine-readable reason a tool call was denied, each with its own message
+ * - blocked, read-only, redacted, prompt, outside-root: decided by a rule or the outside-root policy
+ * - invalid-path: a path argument that cannot be checked
+ * - parse-failure: a command or patch whose target paths cannot be found
+ * - withheld: tool output that could not be filtered or masked, replaced by the message
+ */
+export type DenialCode = "blocked" | "read-only" | "redacted" | "prompt" | "outside-root" | "invalid-path" | "parse-failure" | "withheld"
+
+export const DENIAL_CODES: DenialCode[] = ["blocked", "read-only", "redacted", "prompt", "outside-root", "invalid-path", "parse-failure", "withheld"]
+
+/**
+ * Denial messages shown to the agent, by code
+ * Placeholders in braces are replaced when a call is denied (see MESSAGE_PLACEHOLDERS)
+ */
+export type MessageTemplates = Partial<Record<DenialCode, string>>
+
+/**
+ * Placeholders a message template may use
+ * - tool: tool that was called
+ * - path: path as given by the tool, empty for parse failures and withheld output
+ * - normalizedPath: path the decision was made for
+ * - rule: deciding rule as "file:line: pattern", empty if there is none
+ * - source: the rule in parentheses after a space, empty if there is none
+ * - hint: how to make an unverifiable call checkable, empty for other codes
+ */
+export const MESSAGE_PLACEHOLDERS = ["tool", "path", "normalizedPath", "rule", "source", "hint"]
+
+/** Messages used for codes the configuration leaves out */
+export const DEFAULT_MESSAGES: Record<DenialCode, string> = {
+  "blocked": "Access denied: {path} blocked by ignore file{source}. Do NOT try to read this. Access restricted.",
+  "read-only": "Access denied: {path} is read-only by ignore file{source}. Do NOT try to modify this. Access restricted.",
+  "redacted": "Access denied: {path} is redacted by ignore file{source}. Only the read tool may open it, with secret values masked. Do NOT try to modify this. Access restricted.",
+  "prompt": "Access denied: {path} needs the user's approval by ignore file{source}. Ask the user to reply \"allow once\", \"allow session\", \"allow always\" or \"deny\", then try again. Do NOT try to access this another way. Access restricted.",
+  "outside-root": "Access denied: {path} is outside the project root. Do NOT try to access this. Access restricted.",
+  "invalid-path": "Access denied: {path} is not a valid path and could not be checked against ignore file. Access restricted.",
+  "parse-failure": "Access denied: {tool} call could not be verified against ignore file. {hint} Access restricted.",
+  "withheld": "Access denied: {tool} output could not be verified against ignore file and was withheld. Access restricted."
+}
+
+/** Placeholder syntax: a name in braces */
+const PLACEHOLDER = /\{(\w+)\}/g
+
+/**
+ * Find the placeholders of a template that are not in MESSAGE_PLACEHOLDERS
+ * @param template - Message template
+ * @returns Unknown placeholder names, empty if the template is valid
+ */
+export function unknownPlaceholders(template: string): string[] {
+  return [...template.matchAll(PLACEHOLDER)]
+    .map(match => match[1]!)
+    .filter(name => !MESSAGE_PLACEHOLDERS.includes(name))
+}
+
+/**
+ * Fill in the placeholders of a template
+ *
+ * @example
+ * renderMessage("Access denied: {path}{source}.", {path: "a.key", source: " (.ignore:1: *.key)"})
+ * // "Access denied: a.key (.ignore:1: *.key)."
+ *
+ * @param template - Message template
+ * @param values - Value of each placeholder
+ * @returns Message, with placeholders that have no value left as written
+ */
+export function renderMessage(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (placeholder, name: string) => Object.hasOwn(values, name) ? values[name]! : placeholder)
+}
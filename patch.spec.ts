@@ -0,0 +1,83 @@
+import { test, expect, describe } from "bun:test"
+import { analyzePatch } from "./patch"
+
+describe("analyzePatch", () => {
+  describe("unified diffs", () => {
+    test("collects targets from --- and +++ headers", () => {
+      const patch = [
+        "--- a/src/app.ts\t2025-01-01 10:00:00",
+        "+++ b/src/app.ts\t2025-01-01 10:05:00",
+        "@@ -1,2 +1,2 @@",
+        " keep",
+        "-old",
+        "+new",
+        "--- /dev/null",
+        "+++ b/docs/new file.md",
+        "@@ -0,0 +1 @@",
+        "+hello"
+      ].join("\n")
+      expect(analyzePatch(patch)).toEqual({ paths: [], writes: ["src/app.ts", "docs/new file.md"], confident: true })
+    })
+
+    test("does not mistake hunk lines for headers", () => {
+      const patch = "--- a/notes.md\n+++ b/notes.md\n@@ -1,2 +1,2 @@\n--- a/.env\n+++ b/.env\n context"
+      expect(analyzePatch(patch).writes).toEqual(["notes.md"])
+    })
+
+    test("collects renames, copies and mode changes from git headers", () => {
+      const patch = [
+        "diff --git a/old.ts b/new.ts",
+        "similarity index 100%",
+        "rename from old.ts",
+        "rename to new.ts",
+        "diff --git a/template.env b/app.env",
+        "similarity index 90%",
+        "copy from template.env",
+        "copy to app.env",
+        "diff --git a/run script.sh b/run script.sh",
+        "old mode 100644",
+        "new mode 100755"
+      ].join("\n")
+      expect(analyzePatch(patch)).toEqual({
+        paths: ["template.env"],
+        writes: ["old.ts", "new.ts", "app.env", "run script.sh"],
+        confident: true
+      })
+    })
+  })
+
+  describe("*** Begin Patch format", () => {
+    test("collects added, updated, deleted and moved files", () => {
+      const patch = [
+        "*** Begin Patch",
+        "*** Add File: src/new.ts",
+        "+--- a/.env",
+        "*** Update File: src/app.ts",
+        "*** Move to: src/main.ts",
+        "@@ function main",
+        "--- old separator",
+        "+new",
+        "*** Delete File: tmp.txt",
+        "*** End Patch"
+      ].join("\n")
+      expect(analyzePatch(patch)).toEqual({
+        paths: [],
+        writes: ["src/new.ts", "src/app.ts", "src/main.ts", "tmp.txt"],
+        confident: true
+      })
+    })
+  })
+
+  describe("confidence", () => {
+    test("is not confident without any target", () => {
+      expect(analyzePatch("").confident).toBe(false)
+      expect(analyzePatch("please change the config").confident).toBe(false)
+    })
+
+    test("is not confident for headers it cannot read", () => {
+      expect(analyzePatch("*** Begin Patch\n*** Replace File: a.ts\n*** End Patch").confident).toBe(false)
+      expect(analyzePatch("diff --git a/x y b/z w\n").confident).toBe(false)
+      expect(analyzePatch("--- \n+++ b/a.ts").confident).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,144 @@
+/**
+ * Result of analyzing patch text
+ * Paths are as written in the patch (relative to the directory the patch applies in)
+ */
+export interface PatchAnalysis {
+  /** Paths the patch reads without changing them (sources of copies) */
+  paths: string[]
+  /** Paths the patch creates, modifies, deletes or renames */
+  writes: string[]
+  /** false if no target was found or a file header could not be parsed */
+  confident: boolean
+}
+
+/** Hunk header of a unified diff: "@@ -12,5 +12,7 @@" (counts default to 1) */
+const HUNK_HEADER = /^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/
+
+/** File headers of unified diffs and git extended headers */
+const DIFF_HEADER = /^(---|\+\+\+|rename from|rename to|copy from|copy to) (.*)$/
+
+/** File headers of the "*** Begin Patch" format used by the patch and apply_patch tools */
+const ENVELOPE_HEADER = /^\*\*\* (Add File|Update File|Delete File|Move to): (.*)$/
+
+/** Lines of the "*** Begin Patch" format that name no file */
+const ENVELOPE_MARKER = /^\*\*\* (Begin Patch|End Patch|End of File)\s*$/
+
+/**
+ * Remove the decorations of a path in a diff header
+ * Drops the timestamp after a tab, surrounding quotes and git's "a/" and "b/" prefixes
+ *
+ * @param header - Header keyword ("---", "+++", "rename from"...)
+ * @param value - Text after the keyword
+ * @returns Path, or null for /dev/null (the side of an added or deleted file)
+ */
+function diffPath(header: string, value: string): string | null {
+  let path = value.split("\t")[0]!.trim()
+  if (path.startsWith("\"") && path.endsWith("\"") && path.length > 1) path = path.slice(1, -1)
+  if (path === "/dev/null") return null
+
+  const prefix = header === "---" ? "a/" : header === "+++" ? "b/" : null
+  return prefix && path.startsWith(prefix) ? path.slice(prefix.length) : path
+}
+
+/**
+ * Read the paths of a "diff --git a/x b/y" line
+ * Paths with spaces are only accepted when both sides name the same file, since the line is ambiguous otherwise
+ *
+ * @param rest - Text after "diff --git "
+ * @returns Both paths, or null if the line cannot be split
+ */
+function gitDiffPaths(rest: string): string[] | null {
+  const simple = /^a\/(\S+) b\/(\S+)$/.exec(rest)
+  if (simple?.[1] && simple[2]) return [simple[1], simple[2]]
+
+  const path = rest.slice(2, (rest.length - 1) / 2)
+  return rest === `a/${path} b/${path}` ? [path] : null
+}
+
+/**
+ * Analyze patch text for the files it touches
+ *
+ * Understands unified diffs ("---"/"+++" headers, git's "diff --git",
+ * "rename from/to" and "copy from/to" lines) and the "*** Begin Patch"
+ * format ("*** Add File:", "*** Update File:", "*** Delete File:",
+ * "*** Move to:"). Hunk bodies are skipped by their line counts, so removed
+ * lines that start with "--" are not mistaken for headers.
+ *
+ * @example
+ * analyzePatch("diff --git a/old.ts b/new.ts\nrename from old.ts\nrename to new.ts")
+ * // {paths: [], writes: ["old.ts", "new.ts"], confident: true}
+ *
+ * @param text - Patch text
+ * @returns Read and written paths and parse confidence
+ */
+export function analyzePatch(text: string): PatchAnalysis {
+  const paths: string[] = []
+  const writes: string[] = []
+  let confident = true
+  // Set by the first "*** " header: file content lines are then prefixed and never look like headers
+  let envelopeFormat = false
+  // Lines left in the current unified diff hunk
+  let oldLines = 0
+  let newLines = 0
+  // Paths of the last "diff --git" line, used only if no other header of that file names them (mode changes)
+  let gitPaths: string[] = []
+
+  const record = (list: string[], path: string | null) => {
+    if (path === null) return
+    if (path === "") confident = false
+    else if (!list.includes(path)) list.push(path)
+  }
+
+  for (const line of text.split(/\r?\n/)) {
+    const envelope = ENVELOPE_HEADER.exec(line)
+    if (envelope?.[2] !== undefined) {
+      envelopeFormat = true
+      record(writes, envelope[2].trim())
+      continue
+    }
+
+    if (ENVELOPE_MARKER.test(line)) {
+      envelopeFormat = true
+      continue
+    }
+
+    // Other "*** " lines would be headers of a format this parser does not know
+    if (line.startsWith("*** ")) {
+      confident = false
+      continue
+    }
+
+    if (envelopeFormat) continue
+
+    if (oldLines > 0 || newLines > 0) {
+      if (line.startsWith("\\")) continue
+      if (!line.startsWith("+")) oldLines--
+      if (!line.startsWith("-")) newLines--
+      continue
+    }
+
+    const hunk = HUNK_HEADER.exec(line)
+    if (hunk) {
+      oldLines = Number(hunk[1] ?? 1)
+      newLines = Number(hunk[2] ?? 1)
+      continue
+    }
+
+    if (line.startsWith("diff --git ")) {
+      gitPaths.forEach(path => record(writes, path))
+      const targets = gitDiffPaths(line.slice("diff --git ".length))
+      if (!targets) confident = false
+      gitPaths = targets ?? []
+      continue
+    }
+
+    const diff = DIFF_HEADER.exec(line)
+    if (diff?.[1] && diff[2] !== undefined) {
+      gitPaths = []
+      record(diff[1] === "copy from" ? paths : writes, diffPath(diff[1], diff[2]))
+    }
+  }
+  gitPaths.forEach(path => record(writes, path))
+
+  return {paths, writes, confident: confident && paths.length + writes.length > 0}
+}
@@ -0,0 +1,94 @@
+import { test, expect, describe, beforeAll } from "bun:test"
+import { createPolicy, isPermitted } from "./policy"
+
+describe("createPolicy", () => {
+  let root: string
+
+  beforeAll(async () => {
+    root = "/tmp/test-policy-" + Date.now()
+    await Bun.write(root + "/.ignore", "*.key\n!public.key\n# @read-only\nvendor/\n# @redact\n.env\n")
+    await Bun.write(root + "/.ignore.plan", "secrets/\n")
+    await Bun.write(root + "/.opencode/ignore.json", JSON.stringify({ profiles: { plan: { ignoreFiles: [".ignore.plan"] } } }))
+  })
+
+  test("checks paths with the plugin's rules", async () => {
+    const policy = await createPolicy(root)
+
+    expect(await policy.check("certs/server.key")).toEqual({
+      decision: "blocked",
+      normalizedPath: "certs/server.key",
+      rule: { file: ".ignore", line: 1, pattern: "*.key", negated: false }
+    })
+    expect((await policy.check(root + "/vendor/lib.js", "file", "write")).decision).toBe("read-only")
+    expect((await policy.check("vendor", "directory")).decision).toBe("allowed")
+  })
+
+  test("explains decisions with the deciding rule", async () => {
+    const policy = await createPolicy(root)
+
+    expect(await policy.explain("certs/server.key")).toBe("certs/server.key: blocked by .ignore:1: *.key")
+    expect(await policy.explain("certs/public.key")).toBe("certs/public.key: allowed by .ignore:2: !public.key")
+    expect(await policy.explain("src/app.ts")).toBe("src/app.ts: allowed")
+  })
+
+  test("filters paths by permitted access", async () => {
+    const policy = await createPolicy(root)
+    const paths = ["src/app.ts", "certs/server.key", ".env", "vendor/", "vendor/lib.js"]
+
+    expect(await policy.filter(paths)).toEqual(["src/app.ts", ".env", "vendor/", "vendor/lib.js"])
+    expect(await policy.filter(paths, "write")).toEqual(["src/app.ts"])
+  })
+
+  test("tells whether a negation may re-include files below a directory", async () => {
+    const policy = await createPolicy(root, { globalIgnoreFile: false })
+    expect(await policy.mayReinclude(".")).toBe(true)
+    expect(await policy.mayReinclude("src")).toBe(true)
+    expect(await policy.mayReinclude("/elsewhere")).toBe(false)
+    expect(await (await createPolicy(root, { agent: "plan", globalIgnoreFile: false })).mayReinclude(".")).toBe(false)
+  })
+
+  test("applies agent profiles and explicit settings", async () => {
+    expect((await (await createPolicy(root, { agent: "plan" })).check("secrets/a.txt")).decision).toBe("blocked")
+    expect((await (await createPolicy(root, { agent: "plan" })).check("a.key")).decision).toBe("allowed")
+    expect((await (await createPolicy(root, { ignoreFiles: [] })).check("a.key")).decision).toBe("allowed")
+    expect((await (await createPolicy(root, { config: {} })).check("secrets/a.txt")).decision).toBe("allowed")
+  })
+
+  test("picks up edited ignore files on refresh", async () => {
+    const dir = "/tmp/test-policy-refresh-" + Date.now()
+    await Bun.write(dir + "/.ignore", "a.txt\n")
+    const policy = await createPolicy(dir)
+    expect((await policy.check("b.txt")).decision).toBe("allowed")
+
+    await Bun.write(dir + "/.ignore", "a.txt\nb.txt\n")
+    await policy.refresh()
+    expect((await policy.check("b.txt")).decision).toBe("blocked")
+  })
+
+  test("re-checks a nested ignore file when a path below it is checked after refresh", async () => {
+    const dir = "/tmp/test-policy-nested-refresh-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+    await Bun.write(dir + "/.ignore", "")
+    await Bun.write(dir + "/nested/.ignore", "a.txt\n")
+    const policy = await createPolicy(dir)
+    expect((await policy.check("nested/b.txt")).decision).toBe("allowed")
+
+    await Bun.write(dir + "/nested/.ignore", "a.txt\nb.txt\n")
+    await policy.refresh()
+    expect((await policy.check("other.txt")).decision).toBe("allowed")
+    expect((await policy.check("nested/b.txt")).decision).toBe("blocked")
+  })
+
+  test("rejects an invalid project configuration", async () => {
+    const dir = "/tmp/test-policy-invalid-" + Date.now()
+    await Bun.write(dir + "/.opencode/ignore.json", JSON.stringify({ ignoreFiles: "x" }))
+    await expect(createPolicy(dir)).rejects.toThrow(/ignoreFiles/)
+  })
+})
+
+describe("isPermitted", () => {
+  test("permits reading redacted files, never files behind prompt rules", () => {
+    expect(isPermitted({ decision: "redacted", normalizedPath: "a" }, "read")).toBe(true)
+    expect(isPermitted({ decision: "redacted", normalizedPath: "a" }, "write")).toBe(false)
+    expect(isPermitted({ decision: "prompt", normalizedPath: "a" }, "read")).toBe(false)
+  })
+})
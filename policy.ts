@@ -0,0 +1,141 @@
+import {relative} from "path"
+import {isOutsideRelativePath, pathVariants} from "./canonical"
+import {
+  checkPath,
+  createRuleEngine,
+  formatRule,
+  loadConfig,
+  profileConfig,
+  type Operation,
+  type PathCheck,
+  type PathKind,
+  type PluginConfig,
+  type RuleSettings
+} from "./engine"
+
+export {CONFIG_FILE, formatRule, normalizePath} from "./engine"
+export {AccessDeniedError, type Denial} from "./errors"
+export {formatLintWarning, lintIgnoreFiles, type LintCode, type LintWarning} from "./lint"
+export type {DenialCode, MessageTemplates} from "./messages"
+export type {
+  MatchedRule,
+  Operation,
+  PathCheck,
+  PathDecision,
+  PathKind,
+  PluginConfig,
+  RuleSettings
+} from "./engine"
+
+/**
+ * Options of a policy
+ * Rule settings given here override those of the configuration and profile
+ */
+export interface PolicyOptions extends RuleSettings {
+  /** Configuration to use instead of the project's .opencode/ignore.json */
+  config?: PluginConfig
+  /** Apply the rule profile of this agent (project rules if it has none) */
+  agent?: string
+}
+
+/**
+ * Access rules of a project, as the plugin enforces them
+ */
+export interface Policy {
+  /** Absolute project root the rules apply to */
+  readonly projectRoot: string
+  /**
+   * Reload ignore files changed since they were loaded, as later checks reach them
+   * Rules and decisions are cached, so long-lived callers refresh before a batch of checks
+   */
+  refresh(): Promise<void>
+  /**
+   * Decide access to a path
+   * @param path - Absolute, or relative to the project root
+   * @param kind - How the path is used (default: file)
+   * @param operation - Access needed (default: read)
+   */
+  check(path: string, kind?: PathKind, operation?: Operation): Promise<PathCheck>
+  /**
+   * Describe the decision for a path and the rule that made it
+   * @example
+   * await policy.explain("certs/server.key") // "certs/server.key: blocked by .ignore:4: *.key"
+   */
+  explain(path: string, kind?: PathKind, operation?: Operation): Promise<string>
+  /**
+   * Keep the paths the access is permitted to (see isPermitted)
+   * Paths ending with "/" are checked as directories, others as files
+   */
+  filter(paths: string[], operation?: Operation): Promise<string[]>
+  /**
+   * Tell whether a negation rule may re-include files below a directory
+   * Only the ignore files of the directory and its ancestors are read; false outside the project root
+   * @param directory - Absolute, or relative to the project root
+   * @param operation - Access needed (default: read)
+   */
+  mayReinclude(directory: string, operation?: Operation): Promise<boolean>
+}
+
+/**
+ * Check if a decision grants an access without asking anyone
+ * Redacted files can be read, with secret values masked, but never written;
+ * files behind a prompt rule are not, since each access waits for the user
+ *
+ * @param check - Check result
+ * @param operation - Checked access
+ * @returns true if the access is permitted
+ */
+export function isPermitted({decision}: PathCheck, operation: Operation): boolean {
+  return decision === "allowed" || (decision === "redacted" && operation === "read")
+}
+
+/**
+ * Create the access policy of a project
+ *
+ * Uses the plugin's own rule engine, configuration and path normalization,
+ * so answers match what agents see at runtime. Grants and approvals given
+ * by the user during sessions are not applied: they belong to the plugin.
+ *
+ * @example
+ * const policy = await createPolicy("/path/to/project")
+ * const {decision, rule} = await policy.check("config/app.env")
+ *
+ * @param projectRoot - Absolute path to project root
+ * @param options - Configuration, agent profile and rule settings
+ * @returns Policy bound to the project
+ * @throws Error if .opencode/ignore.json is invalid
+ */
+export async function createPolicy(projectRoot: string, options: PolicyOptions = {}): Promise<Policy> {
+  const {config = await loadConfig(projectRoot), agent, ...settings} = options
+  const engine = createRuleEngine(projectRoot, {...profileConfig(config, agent), ...settings})
+
+  const check = (path: string, kind: PathKind = "file", operation: Operation = "read") =>
+    checkPath(path, engine, kind, operation)
+
+  return {
+    projectRoot,
+
+    refresh: () => engine.refresh(),
+
+    check,
+
+    async explain(path, kind, operation) {
+      const {decision, normalizedPath, rule} = await check(path, kind, operation)
+      return rule ? `${normalizedPath}: ${decision} by ${formatRule(rule)}` : `${normalizedPath}: ${decision}`
+    },
+
+    async filter(paths, operation = "read") {
+      const permitted: string[] = []
+      for (const path of paths) {
+        if (isPermitted(await check(path, path.endsWith("/") ? "directory" : "file", operation), operation)) permitted.push(path)
+      }
+      return permitted
+    },
+
+    async mayReinclude(directory, operation = "read") {
+      const relativePath = relative(projectRoot, pathVariants(directory, projectRoot)[0]!)
+      if (isOutsideRelativePath(relativePath)) return false
+      return engine.reincludes(relativePath === "" ? "" : relativePath + "/", operation)
+    }
+  }
+}
@@ -0,0 +1,111 @@
+/** Replaces every secret value */
+export const REDACTED = "[REDACTED]"
+
+/** Line number prefix of read tool output ("00012| ") */
+const LINE_PREFIX = /^(\s*\d+\| ?)?(.*)$/s
+
+const PEM_BEGIN = /^-----BEGIN [A-Z0-9 ]+-----\s*$/
+const PEM_END = /^-----END [A-Z0-9 ]+-----\s*$/
+
+/** Lines of JSON: objects, arrays, members and array items (strings, numbers, true, false, null) */
+const JSON_LINE = /^\s*([{["]|(-?\d[\d.eE+-]*|true|false|null)\s*[,\]}]*\s*$)/
+
+/** JSON string (a key when followed by ":") or other scalar */
+const JSON_TOKEN = /"(?:[^"\\]|\\.)*"(\s*:)?|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|\b(?:true|false|null)\b/g
+
+/**
+ * KEY=value, export KEY=value, key: value, - key: value, key = value, key:value, key value
+ * (env, properties, YAML, INI)
+ */
+const KEY_VALUE = /^(\s*(?:export\s+|- )?[A-Za-z0-9_.\-[\]]+(?:\s*[=:]\s*|\s+))(\S.*?)(\s*)$/
+
+/** YAML block scalar indicator ("|", ">-", "|2"...), whose value is on the indented lines below */
+const BLOCK_SCALAR = /^[|>][-+0-9]*\s*(#.*)?$/
+
+/** Properties value continued on the next line: an odd number of trailing backslashes */
+const CONTINUED = /(?<!\\)(\\\\)*\\$/
+
+/** Comment lines of env, properties, YAML and INI files */
+const COMMENT = /^\s*(#|!|;|\/\/)/
+
+/** Lines that hold no value: brackets and commas, YAML document markers, keys of nested maps, empty entries */
+const STRUCTURE = /^\s*(?:[{}[\](),]+|---|\.\.\.|(?:export\s+|- )?[\w.\-"']+\s*[:=])\s*$/
+
+/** Lines the read tool adds around the numbered file lines */
+const READ_TOOL_LINE = /^(?:<\/?file>|\((?:End of file|File has more lines)[^)]*\))$/
+
+/**
+ * Mask secret values in file content
+ *
+ * Keeps the structure the agent needs (keys, sections, comments, PEM
+ * boundaries) and replaces values with a placeholder:
+ * - PEM blocks: every line between BEGIN and END
+ * - JSON: every string, number, boolean and null that is not a key, in objects and arrays
+ * - env/properties/YAML/INI: the value of every key=value, key: value or key value entry,
+ *   including properties continuation lines and the indented lines of YAML block scalars
+ * - any other line, such as a bare token, entirely: what is not recognized may be a secret
+ *
+ * Works line by line, so the line-numbered output of the read tool keeps its numbering.
+ *
+ * @example
+ * redactSecrets("DB_PASSWORD=hunter2\n# comment")
+ * // "DB_PASSWORD=[REDACTED]\n# comment"
+ *
+ * @param text - File content, optionally with "00001| " line prefixes
+ * @returns Text with secret values replaced by REDACTED
+ */
+export function redactSecrets(text: string): string {
+  let inPem = false
+  let continued = false
+  // Indentation of the key whose block scalar is being masked, -1 outside block scalars
+  let blockIndent = -1
+
+  return text.split("\n").map(line => {
+    const [, prefix = "", content = ""] = LINE_PREFIX.exec(line) ?? []
+    const indent = /^\s*/.exec(content)![0]
+
+    if (continued) {
+      continued = CONTINUED.test(content)
+      return prefix + indent + REDACTED
+    }
+
+    if (blockIndent >= 0) {
+      if (content.trim() === "") return line
+      if (indent.length > blockIndent) return prefix + indent + REDACTED
+      blockIndent = -1
+    }
+
+    if (inPem) {
+      if (PEM_END.test(content)) {
+        inPem = false
+        return line
+      }
+      return content.trim() === "" ? line : prefix + REDACTED
+    }
+
+    if (PEM_BEGIN.test(content)) {
+      inPem = true
+      return line
+    }
+
+    if (COMMENT.test(content)) return line
+
+    if (JSON_LINE.test(content)) {
+      return prefix + content.replace(JSON_TOKEN, (token, key?: string) => key ? token : `"${REDACTED}"`)
+    }
+
+    const entry = KEY_VALUE.exec(content)
+    if (entry) {
+      const value = entry[2]!
+      if (BLOCK_SCALAR.test(value)) {
+        blockIndent = indent.length
+        return line
+      }
+      continued = CONTINUED.test(value)
+      return prefix + entry[1] + REDACTED + entry[3]
+    }
+
+    if (content.trim() === "" || STRUCTURE.test(content) || (prefix === "" && READ_TOOL_LINE.test(content))) return line
+    return prefix + indent + REDACTED
+  }).join("\n")
+}
@@ -0,0 +1,105 @@
+import { test, expect, describe } from "bun:test"
+import {
+  formatGlobOutput,
+  formatGrepOutput,
+  formatListOutput,
+  parseGlobOutput,
+  parseGrepOutput,
+  parseListOutput,
+  TRUNCATION_NOTICE
+} from "./results"
+
+const FIXTURES = new URL("./fixtures/tool-output/", import.meta.url)
+
+async function fixture(name: string) {
+  return (await Bun.file(new URL(name, FIXTURES)).text()).replaceAll("<root>", "/project")
+}
+
+describe("glob output", () => {
+  test("parses and prints recorded output unchanged", async () => {
+    const text = await fixture("glob.txt")
+    const output = parseGlobOutput(text)
+    expect(output?.files).toHaveLength(25)
+    expect(output?.files[0]).toBe("/project/.ignore")
+    expect(formatGlobOutput(output!)).toBe(text)
+  })
+
+  test("keeps the truncation notice and the empty result", () => {
+    const text = `/project/a.ts\n\n${TRUNCATION_NOTICE}`
+    expect(parseGlobOutput(text)).toEqual({ files: ["/project/a.ts"], truncated: true })
+    expect(formatGlobOutput({ files: ["/project/a.ts"], truncated: true })).toBe(text)
+    expect(parseGlobOutput("No files found")).toEqual({ files: [], truncated: false })
+    expect(formatGlobOutput({ files: [], truncated: true })).toBe("No files found")
+  })
+
+  test("rejects text that is not glob output", () => {
+    expect(parseGlobOutput("")).toBeNull()
+    expect(parseGlobOutput("src/index.ts")).toBeNull()
+    expect(parseGlobOutput("/project/a.ts\nError: something failed")).toBeNull()
+  })
+})
+
+describe("grep output", () => {
+  test("parses and prints recorded output unchanged", async () => {
+    const text = await fixture("grep.txt")
+    const output = parseGrepOutput(text)
+    expect(output?.files.map(file => file.path)).toEqual([
+      "/project/database/credentials/db-admin.properties",
+      "/project/src/app.runtime.properties",
+      "/project/config/development/app.server.properties",
+      "/project/config/production/app.server.properties",
+      "/project/config/staging/app.server.properties",
+      "/project/public/app.example.properties"
+    ])
+    expect(output?.files[0]?.lines).toEqual([
+      "  Line 5: db.admin.password=DBAdm1n_Pr0d_P@ssw0rd_V3ry_S3cur3!",
+      "  Line 7: db.root.password=P0stgr3s_R00t_P@ss_N3v3r_Sh@r3!"
+    ])
+    expect(formatGrepOutput(output!)).toBe(text)
+  })
+
+  test("recounts matches when printing", () => {
+    const output = parseGrepOutput(`Found 3 matches\n/p/a.ts:\n  Line 1: x\n\n/p/b.ts:\n  Line 2: y\n  Line 3: z\n\n${TRUNCATION_NOTICE}`)
+    expect(output?.truncated).toBe(true)
+    expect(formatGrepOutput({ ...output!, files: output!.files.slice(1) }))
+      .toBe(`Found 2 matches\n/p/b.ts:\n  Line 2: y\n  Line 3: z\n\n${TRUNCATION_NOTICE}`)
+    expect(formatGrepOutput({ files: [], truncated: false })).toBe("No files found")
+  })
+
+  test("keeps matched text that looks like a header", () => {
+    const output = parseGrepOutput("Found 1 matches\n/p/a.yml:\n  Line 4: /p/secrets.json:")
+    expect(output?.files).toEqual([{ path: "/p/a.yml", lines: ["  Line 4: /p/secrets.json:"] }])
+  })
+
+  test("rejects text that is not grep output", () => {
+    expect(parseGrepOutput("rg: error parsing flag")).toBeNull()
+    expect(parseGrepOutput("Found 1 matches\n  Line 1: x")).toBeNull()
+    expect(parseGrepOutput("Found 1 matches\nrelative.ts:\n  Line 1: x")).toBeNull()
+    expect(parseGrepOutput("Found 2 matches\n/p/a.ts:\n  Line 1: x\n/p/b.ts:\n  Line 1: y")).toBeNull()
+    expect(parseGrepOutput("Found 1 matches\n/p/a.ts:\n  Line 1: x\nunexpected")).toBeNull()
+  })
+})
+
+describe("list output", () => {
+  test("parses and prints recorded output unchanged", async () => {
+    const text = await fixture("list.txt")
+    const output = parseListOutput(text)
+    expect(output?.directory).toBe("/project/")
+    expect(output?.entries.map(entry => entry.name)).toEqual(["config/", "public/", "test-data/", ".ignore", "README.md", "TEST-SCENARIOS.md"])
+    expect(output?.entries.find(entry => entry.name === "public/")?.children.map(entry => entry.name))
+      .toEqual([".env.template", "app.example.properties", "readme.txt"])
+    expect(formatListOutput(output!)).toBe(text)
+  })
+
+  test("parses an empty directory", () => {
+    expect(parseListOutput("/project/\n")).toEqual({ directory: "/project/", entries: [] })
+  })
+
+  test("rejects text that is not list output", () => {
+    expect(parseListOutput("src/\n  a.ts\n")).toBeNull()
+    expect(parseListOutput("/project/\n  a.ts")).toBeNull()
+    expect(parseListOutput("/project/\n      deep.ts\n")).toBeNull()
+    expect(parseListOutput("/project/\n   odd.ts\n")).toBeNull()
+    expect(parseListOutput("/project/\nError\n")).toBeNull()
+  })
+})
@@ -0,0 +1,221 @@
+import {isAbsolute} from "path"
+
+/** Output of glob and grep when nothing matched */
+export const NO_FILES_FOUND = "No files found"
+
+/** Last line of glob and grep output when results were cut at the tool's limit */
+export const TRUNCATION_NOTICE = "(Results are truncated. Consider using a more specific path or pattern.)"
+
+/** First line of grep output */
+const GREP_SUMMARY = /^Found \d+ matches$/
+
+/** Matched line of grep output, below its file header */
+const GREP_LINE = /^  Line \d+: /
+
+/** File header of grep output: the absolute path followed by ":" */
+const GREP_FILE = /^(.+):$/
+
+/** Entry of list output: two spaces of indentation per level, directory names end with "/" */
+const LIST_ENTRY = /^((?:  )+)(\S.*)$/
+
+/**
+ * Parsed glob output
+ */
+export interface GlobOutput {
+  /** Absolute paths of matched files */
+  files: string[]
+  truncated: boolean
+}
+
+/**
+ * Matches of one file in grep output
+ */
+export interface GrepFile {
+  /** Absolute path of the file */
+  path: string
+  /** "  Line 12: text" lines, as printed */
+  lines: string[]
+}
+
+/**
+ * Parsed grep output
+ */
+export interface GrepOutput {
+  files: GrepFile[]
+  truncated: boolean
+}
+
+/**
+ * Line of list output with the entries nested below it
+ */
+export interface ListEntry {
+  /** File or directory name, directory names end with "/" */
+  name: string
+  children: ListEntry[]
+}
+
+/**
+ * Parsed list output
+ */
+export interface ListOutput {
+  /** Absolute listed directory, as printed on the first line (ends with "/") */
+  directory: string
+  entries: ListEntry[]
+}
+
+/**
+ * Split tool output into lines and the truncation notice
+ * @param text - Tool output
+ * @returns Lines before the notice (and the blank line preceding it), and whether it was present
+ */
+function splitTruncation(text: string): {lines: string[], truncated: boolean} {
+  const lines = text.split("\n")
+  if (lines.at(-1) !== TRUNCATION_NOTICE || lines.at(-2) !== "") return {lines, truncated: false}
+
+  return {lines: lines.slice(0, -2), truncated: true}
+}
+
+/**
+ * Parse the output of the glob tool
+ *
+ * @example
+ * parseGlobOutput("/project/src/index.ts\n/project/README.md")
+ * // {files: ["/project/src/index.ts", "/project/README.md"], truncated: false}
+ *
+ * @param text - Tool output: one absolute path per line, or "No files found"
+ * @returns Parsed output, or null if the text is not glob output
+ */
+export function parseGlobOutput(text: string): GlobOutput | null {
+  if (text === NO_FILES_FOUND) return {files: [], truncated: false}
+
+  const {lines, truncated} = splitTruncation(text)
+  if (!lines.every(line => isAbsolute(line))) return null
+
+  return {files: lines, truncated}
+}
+
+/**
+ * Print glob output in the tool's own format
+ * @param output - Parsed glob output
+ * @returns Tool output text
+ */
+export function formatGlobOutput({files, truncated}: GlobOutput): string {
+  if (files.length === 0) return NO_FILES_FOUND
+
+  return truncated ? [...files, "", TRUNCATION_NOTICE].join("\n") : files.join("\n")
+}
+
+/**
+ * Parse the output of the grep tool
+ *
+ * @example
+ * parseGrepOutput("Found 1 matches\n/project/.env:\n  Line 2: API_KEY=x")
+ * // {files: [{path: "/project/.env", lines: ["  Line 2: API_KEY=x"]}], truncated: false}
+ *
+ * @param text - Tool output: a match count, then a header and the matched lines for every file
+ * @returns Parsed output, or null if the text is not grep output
+ */
+export function parseGrepOutput(text: string): GrepOutput | null {
+  if (text === NO_FILES_FOUND) return {files: [], truncated: false}
+
+  const {lines: [summary = "", ...lines], truncated} = splitTruncation(text)
+  if (!GREP_SUMMARY.test(summary)) return null
+
+  const files: GrepFile[] = []
+  let expectHeader = true
+  for (const line of lines) {
+    const current = files.at(-1)
+    if (current && !expectHeader && GREP_LINE.test(line)) {
+      current.lines.push(line)
+      continue
+    }
+
+    // Files are separated by a blank line
+    if (line === "" && current) {
+      expectHeader = true
+      continue
+    }
+
+    const header = GREP_FILE.exec(line)
+    if (!expectHeader || !header?.[1] || !isAbsolute(header[1])) return null
+    files.push({path: header[1], lines: []})
+    expectHeader = false
+  }
+
+  if (files.length === 0 || files.some(file => file.lines.length === 0)) return null
+
+  return {files, truncated}
+}
+
+/**
+ * Print grep output in the tool's own format, recounting the matches
+ * @param output - Parsed grep output
+ * @returns Tool output text
+ */
+export function formatGrepOutput({files, truncated}: GrepOutput): string {
+  if (files.length === 0) return NO_FILES_FOUND
+
+  const matches = files.reduce((total, file) => total + file.lines.length, 0)
+  const lines = [`Found ${matches} matches`]
+  files.forEach((file, index) => {
+    if (index > 0) lines.push("")
+    lines.push(`${file.path}:`, ...file.lines)
+  })
+  if (truncated) lines.push("", TRUNCATION_NOTICE)
+
+  return lines.join("\n")
+}
+
+/**
+ * Parse the output of the list tool
+ *
+ * @example
+ * parseListOutput("/project/\n  src/\n    index.ts\n  README.md\n")
+ * // {directory: "/project/", entries: [{name: "src/", children: [{name: "index.ts", ...}]}, {name: "README.md", ...}]}
+ *
+ * @param text - Tool output: the listed directory, then an indented tree ending with a newline
+ * @returns Parsed output, or null if the text is not list output
+ */
+export function parseListOutput(text: string): ListOutput | null {
+  const [directory = "", ...lines] = text.split("\n")
+  if (!directory.endsWith("/") || !isAbsolute(directory) || lines.pop() !== "") return null
+
+  const entries: ListEntry[] = []
+  // Children of the directories enclosing the current line, outermost first
+  const open: ListEntry[][] = [entries]
+
+  for (const line of lines) {
+    const match = LIST_ENTRY.exec(line)
+    if (!match?.[1] || !match[2]) return null
+
+    // An entry is at most one level below the previous directory
+    const depth = match[1].length / 2
+    if (depth > open.length) return null
+
+    const entry: ListEntry = {name: match[2], children: []}
+    open.length = depth
+    open[depth - 1]!.push(entry)
+    if (entry.name.endsWith("/")) open.push(entry.children)
+  }
+
+  return {directory, entries}
+}
+
+/**
+ * Print list entries as indented lines
+ * @param entries - Entries of one directory
+ * @param depth - Indentation level of the entries
+ * @returns Lines of the entries, each followed by its subtree
+ */
+function renderListEntries(entries: ListEntry[], depth: number): string[] {
+  return entries.flatMap(entry => ["  ".repeat(depth) + entry.name, ...renderListEntries(entry.children, depth + 1)])
+}
+
+/**
+ * Print list output in the tool's own format
+ * @param output - Parsed list output
+ * @returns Tool output text
+ */
+export function formatListOutput({directory, entries}: ListOutput): string {
+  return [directory, ...renderListEntries(entries, 1)].join("\n") + "\n"
+}
@@ -0,0 +1,41 @@
+import { test, expect, describe } from "bun:test"
+import { analyzeSearchPattern } from "./search"
+
+const S = "\u2063"
+
+describe("analyzeSearchPattern", () => {
+  test("splits the literal base directory from the wildcards", () => {
+    expect(analyzeSearchPattern("certs/*/*.key")).toEqual({ base: "certs", samples: [`certs/${S}/${S}.key`], anyDepth: false })
+    expect(analyzeSearchPattern("src/a?c/[ab]*.ts")).toEqual({ base: "src", samples: [`src/a${S}c/${S}${S}.ts`], anyDepth: false })
+    expect(analyzeSearchPattern("*.pem")).toEqual({ base: "", samples: [`${S}.pem`], anyDepth: false })
+  })
+
+  test("samples every brace alternative", () => {
+    expect(analyzeSearchPattern("*.{key,pem,key}")).toEqual({ base: "", samples: [`${S}.key`, `${S}.pem`], anyDepth: false })
+    expect(analyzeSearchPattern("{src,test}/*.ts").samples).toEqual([`src/${S}.ts`, `test/${S}.ts`])
+  })
+
+  test("samples several directory levels for ** before the last segment", () => {
+    expect(analyzeSearchPattern("certs/**/*.key")).toEqual({
+      base: "certs",
+      samples: [`certs/${S}.key`, `certs/${S}/${S}.key`, `certs/${S}/${S}/${S}.key`],
+      anyDepth: true
+    })
+    expect(analyzeSearchPattern("**/*.{key,pem}").samples).toHaveLength(6)
+  })
+
+  test("makes no samples for patterns with too many alternatives", () => {
+    expect(analyzeSearchPattern("certs/" + "{a,b}".repeat(20) + ".key")).toEqual({ base: "certs", samples: [], anyDepth: false })
+    expect(analyzeSearchPattern("**/{a,b,c}{d,e,f}{g,h,i}.key")).toMatchObject({ samples: [], anyDepth: true })
+    expect(analyzeSearchPattern("{a,b}{c,d}{e,f}{g,h}{i,j}{k,l}.key").samples).toHaveLength(64)
+  })
+
+  test("keeps a trailing ** as any file below the base", () => {
+    expect(analyzeSearchPattern("sensitive-data/**")).toEqual({ base: "sensitive-data", samples: [`sensitive-data/${S}`], anyDepth: false })
+  })
+
+  test("treats literal patterns as the path itself", () => {
+    expect(analyzeSearchPattern("config/.env.staging")).toEqual({ base: "config", samples: ["config/.env.staging"], anyDepth: false })
+    expect(analyzeSearchPattern("/etc/*")).toEqual({ base: "/etc", samples: [`/etc/${S}`], anyDepth: false })
+  })
+})
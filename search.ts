@@ -0,0 +1,124 @@
+/**
+ * Paths that stand for every match of a search pattern
+ */
+export interface SearchScope {
+  /** Directory the matches are under: the literal segments before the first wildcard ("" for the search root) */
+  base: string
+  /**
+   * Paths of made-up matches, one per brace alternative and depth of "**",
+   * with wildcards replaced by a character no real file name uses
+   * Empty when there would be more than MAX_SAMPLES: only the base can be checked then
+   */
+  samples: string[]
+  /** Matches may lie at any depth below the base ("**" before the last segment) */
+  anyDepth: boolean
+}
+
+/** Stands in for what a wildcard matches, so the samples name no real file */
+const SAMPLE_CHARACTER = "\u2063"
+
+/** Characters that make a segment a glob rather than a literal name */
+const GLOB_CHARACTERS = /[*?[\]{}]/
+
+/** Directory levels a "**" before the last segment stands for in samples */
+const SAMPLE_DEPTHS = [0, 1, 2]
+
+/** Most samples made for one pattern; brace alternatives multiply, so long patterns would make millions */
+const MAX_SAMPLES = 64
+
+/** Innermost brace group: {a,b,c} */
+const BRACES = /\{([^{}]*)\}/
+
+/**
+ * Expand the brace groups of a pattern, one group at a time
+ * @example
+ * expandBraces("*.{key,pem}", 64) // ["*.key", "*.pem"]
+ * @param pattern - Glob pattern
+ * @param limit - Most patterns to expand to
+ * @returns One pattern per combination of alternatives, or null if there are more than limit
+ */
+function expandBraces(pattern: string, limit: number): string[] | null {
+  let patterns = [pattern]
+
+  for (;;) {
+    const expanded: string[] = []
+    let grouped = false
+    for (const candidate of patterns) {
+      const group = BRACES.exec(candidate)
+      if (!group) {
+        expanded.push(candidate)
+        continue
+      }
+      grouped = true
+      const before = candidate.slice(0, group.index)
+      const after = candidate.slice(group.index + group[0].length)
+      for (const alternative of group[1]!.split(",")) expanded.push(before + alternative + after)
+      if (expanded.length > limit) return null
+    }
+
+    if (!grouped) return expanded
+    patterns = expanded
+  }
+}
+
+/**
+ * Replace the wildcards of one pattern segment with a literal that they match
+ * @param segment - Path segment of a glob pattern without braces
+ * @returns Literal segment
+ */
+function sampleSegment(segment: string): string {
+  return segment.replace(/\[[^\]]*\]|\*+|\?/g, SAMPLE_CHARACTER)
+}
+
+/**
+ * Make up a match of a brace-free pattern
+ * "**" segments stand for a number of made-up directories, except at the end,
+ * where they stand for any file below the base
+ *
+ * @param segments - Pattern segments
+ * @param depth - Directories each "**" before the last segment stands for
+ * @returns Sample path
+ */
+function samplePath(segments: string[], depth: number): string {
+  return segments.flatMap((segment, index) => {
+    if (segment !== "**") return [GLOB_CHARACTERS.test(segment) ? sampleSegment(segment) : segment]
+    return index === segments.length - 1 ? [SAMPLE_CHARACTER] : Array<string>(depth).fill(SAMPLE_CHARACTER)
+  }).join("/")
+}
+
+/**
+ * Analyze a glob pattern for where its matches can be
+ *
+ * A search whose base directory is blocked, or whose every sample is blocked,
+ * can only return blocked files. The samples have names no negation rule
+ * re-includes, so files re-included by name are still found by searching
+ * for that name. Samples cannot stand for every directory a pattern with
+ * anyDepth reaches, so a negation scoped to a directory (e.g. "!**\/public/**")
+ * must be taken into account by the caller. A pattern with more than MAX_SAMPLES
+ * samples gets none, and its matches are left to result filtering.
+ *
+ * @example
+ * analyzeSearchPattern("certs/**\/*.{key,pem}")
+ * // {base: "certs", anyDepth: true, samples: ["certs/\u2063.key", "certs/\u2063/\u2063.key", ...]}
+ *
+ * @param pattern - Glob pattern (glob tool pattern or grep include filter)
+ * @returns Base directory and sample matches
+ */
+export function analyzeSearchPattern(pattern: string): SearchScope {
+  const segments = pattern.split("/")
+  const firstGlob = segments.findIndex(segment => GLOB_CHARACTERS.test(segment))
+
+  // Literal pattern: the only match is the path itself
+  if (firstGlob === -1) return {base: segments.slice(0, -1).join("/"), samples: [pattern], anyDepth: false}
+
+  const base = segments.slice(0, firstGlob).join("/")
+  const alternatives = expandBraces(pattern, MAX_SAMPLES)
+  if (!alternatives) return {base, samples: [], anyDepth: segments.slice(0, -1).some(segment => segment.includes("**"))}
+
+  const expanded = alternatives.map(alternative => alternative.split("/"))
+  const anyDepth = expanded.some(alternative => alternative.slice(0, -1).includes("**"))
+  const depths = anyDepth ? SAMPLE_DEPTHS : [0]
+  const samples = [...new Set(expanded.flatMap(alternative => depths.map(depth => samplePath(alternative, depth))))]
+
+  return {base, samples: samples.length > MAX_SAMPLES ? [] : samples, anyDepth}
+}
@@ -0,0 +1,197 @@
+import { test, expect, describe } from "bun:test"
+import { analyzeShellCommand } from "./shell"
+import { homedir } from "os"
+import path from "path"
+
+describe("analyzeShellCommand", () => {
+  describe("file-reading utilities", () => {
+    test("collects operands of file utilities", () => {
+      expect(analyzeShellCommand("cat sensitive-data/secrets.json")).toEqual({
+        paths: ["sensitive-data/secrets.json"],
+        writes: [],
+        confident: true
+      })
+      expect(analyzeShellCommand("head -n 5 README.md").paths).toContain("README.md")
+    })
+
+    test("skips the pattern of grep-like commands", () => {
+      expect(analyzeShellCommand("grep -r password certs/").paths).toEqual(["certs/"])
+      expect(analyzeShellCommand("sed -n 1,5p config/app.env.production").paths).toEqual(["config/app.env.production"])
+    })
+
+    test("treats every operand as a file when the pattern comes from an option", () => {
+      expect(analyzeShellCommand("grep -e password secrets.json").paths).toEqual(["secrets.json"])
+      expect(analyzeShellCommand("grep --regexp=password .env").paths).toEqual([".env"])
+      expect(analyzeShellCommand("grep -f patterns.txt id_rsa").paths).toEqual(["patterns.txt", "id_rsa"])
+    })
+
+    test("collects find starting points", () => {
+      expect(analyzeShellCommand("find certs -name '*.pem'")).toEqual({ paths: ["certs"], writes: [], confident: true })
+    })
+
+    test("collects paths from git revision specs", () => {
+      expect(analyzeShellCommand("git show HEAD:certs/server.key").paths).toEqual(["certs/server.key"])
+    })
+
+    test("collects path-like arguments of other programs", () => {
+      expect(analyzeShellCommand("node scripts/build.js --config=config/app.env.production").paths)
+        .toEqual(["config/app.env.production", "scripts/build.js"])
+      expect(analyzeShellCommand("npm test").paths).toEqual([])
+    })
+  })
+
+  describe("written paths", () => {
+    test("reports operands of modifying utilities as writes", () => {
+      expect(analyzeShellCommand("rm -rf vendor/lib && touch build/.stamp")).toMatchObject({
+        paths: [],
+        writes: ["vendor/lib", "build/.stamp"]
+      })
+      expect(analyzeShellCommand("mv a.txt b.txt").writes).toEqual(["a.txt", "b.txt"])
+      expect(analyzeShellCommand("echo x | tee -a log.txt").writes).toEqual(["log.txt"])
+    })
+
+    test("reports the destination of copies as a write", () => {
+      expect(analyzeShellCommand("cp -r .env config/ backup/")).toMatchObject({
+        paths: [".env", "config/"],
+        writes: ["backup/"]
+      })
+      expect(analyzeShellCommand("dd if=disk.img of=copy.img bs=1M")).toMatchObject({
+        paths: ["disk.img"],
+        writes: ["copy.img"]
+      })
+    })
+
+    test("reports files edited in place as read and written", () => {
+      expect(analyzeShellCommand("sed -i.bak s/a/b/ package.json")).toMatchObject({
+        paths: ["package.json"],
+        writes: ["package.json"]
+      })
+      expect(analyzeShellCommand("sed s/a/b/ package.json").writes).toEqual([])
+    })
+  })
+
+  describe("command structure", () => {
+    test("handles pipes, && and ;", () => {
+      const analysis = analyzeShellCommand("cat README.md | grep key && tail .env; echo done")
+      expect(analysis.paths).toEqual(["README.md", ".env"])
+      expect(analysis.confident).toBe(true)
+    })
+
+    test("collects redirection targets", () => {
+      expect(analyzeShellCommand("sort < secrets.json > out.txt 2>&1")).toEqual({
+        paths: ["secrets.json"],
+        writes: ["out.txt"],
+        confident: true
+      })
+      expect(analyzeShellCommand("echo hi 2>/dev/null").writes).toEqual(["/dev/null"])
+      expect(analyzeShellCommand("cat db.sqlite <> lock")).toMatchObject({ paths: ["lock", "db.sqlite"], writes: ["lock"] })
+    })
+
+    test("handles quotes and escapes", () => {
+      expect(analyzeShellCommand(`cat "my dir/secrets.json" 'other file.txt' plain\\ name.txt`).paths)
+        .toEqual(["my dir/secrets.json", "other file.txt", "plain name.txt"])
+    })
+
+    test("analyzes subshells and command substitutions", () => {
+      expect(analyzeShellCommand("(cat .env)").paths).toEqual([".env"])
+      expect(analyzeShellCommand("echo $(cat id_rsa)").paths).toEqual(["id_rsa"])
+      expect(analyzeShellCommand("echo `cat id_rsa`").paths).toEqual(["id_rsa"])
+      expect(analyzeShellCommand("diff <(cat a.txt) b.txt").paths).toEqual(["b.txt", "a.txt"])
+    })
+
+    test("analyzes inline shell scripts", () => {
+      expect(analyzeShellCommand("bash -c 'cat .env'")).toEqual({ paths: [".env"], writes: [], confident: true })
+    })
+
+    test("looks through command wrappers", () => {
+      expect(analyzeShellCommand("sudo -u root cat secrets.json").paths).toEqual(["secrets.json"])
+      expect(analyzeShellCommand("FOO=1 env BAR=2 timeout 5 cat secrets.json").paths).toEqual(["secrets.json"])
+    })
+
+    test("resolves paths after cd", () => {
+      expect(analyzeShellCommand("cd database && cat connection-string.txt").paths)
+        .toEqual(["database/connection-string.txt"])
+      expect(analyzeShellCommand("cd config/production; cd .. && cat master-password.txt").paths)
+        .toEqual(["config/master-password.txt"])
+    })
+
+    test("ends a directory change with its subshell", () => {
+      expect(analyzeShellCommand("(cd public); cat certs/server.key").paths).toEqual(["certs/server.key"])
+      expect(analyzeShellCommand("(cd public) && cat config/master-password.txt").paths).toEqual(["config/master-password.txt"])
+      expect(analyzeShellCommand("(cd public && cat readme.txt); cat .env").paths).toEqual(["public/readme.txt", ".env"])
+    })
+
+    test("returns to the directory saved by pushd on popd", () => {
+      expect(analyzeShellCommand("pushd public; popd; cat config/master-password.txt").paths)
+        .toEqual(["config/master-password.txt"])
+      expect(analyzeShellCommand("pushd public && cat readme.txt && popd && cat .env").paths)
+        .toEqual(["public/readme.txt", ".env"])
+    })
+
+    test("resolves paths against every possible directory when cd is ambiguous", () => {
+      expect(analyzeShellCommand("cd public || true; cat config/master-password.txt").paths)
+        .toEqual(["config/master-password.txt", "public/config/master-password.txt"])
+      expect(analyzeShellCommand("cd public | true; cat .env").paths).toEqual([".env", "public/.env"])
+      expect(analyzeShellCommand("cd public & cat .env").paths).toEqual([".env", "public/.env"])
+    })
+
+    test("also resolves paths as written when the directory is unknown", () => {
+      const back = analyzeShellCommand("cd public; cd -; cat config/master-password.txt")
+      expect(back.paths).toEqual(["config/master-password.txt", "public/config/master-password.txt"])
+      expect(back.confident).toBe(false)
+      expect(analyzeShellCommand("cd $DIR && cat server.key").paths).toEqual(["server.key"])
+      expect(analyzeShellCommand("popd; cat .env").paths).toEqual([".env"])
+    })
+
+    test("checks only the directories before an expansion", () => {
+      expect(analyzeShellCommand(`cat "$PWD/README.md"`)).toEqual({ paths: [], writes: [], confident: false })
+      expect(analyzeShellCommand(`echo "$HOME/notes"`).paths).toEqual([])
+      expect(analyzeShellCommand("ls ${DIR}/src").paths).toEqual([])
+      expect(analyzeShellCommand("cat certs/$(ls keys)").paths).toEqual(["certs/", "keys"])
+      expect(analyzeShellCommand("cp a.txt backup/$NAME/b.txt").writes).toEqual(["backup/"])
+    })
+
+    test("expands home directory", () => {
+      expect(analyzeShellCommand("cat ~/.aws/credentials").paths).toEqual([path.join(homedir(), ".aws/credentials")])
+    })
+
+    test("skips heredoc bodies and here-strings", () => {
+      const analysis = analyzeShellCommand("cat <<'EOF' > notes.md\ncat certs/server.key\nEOF\ngrep x <<< secrets.json")
+      expect(analysis.paths).toEqual([])
+      expect(analysis.writes).toEqual(["notes.md"])
+      expect(analysis.confident).toBe(true)
+    })
+
+    test("ignores comments", () => {
+      expect(analyzeShellCommand("ls src # cat .env").paths).toEqual(["src"])
+    })
+  })
+
+  describe("confidence", () => {
+    test("is confident for static commands", () => {
+      expect(analyzeShellCommand("ls -la src && cat README.md").confident).toBe(true)
+    })
+
+    test("is not confident for variables and globs", () => {
+      expect(analyzeShellCommand("cat $FILE").confident).toBe(false)
+      expect(analyzeShellCommand("cat \"${HOME}/x\"").confident).toBe(false)
+      expect(analyzeShellCommand("cat cert?/*").confident).toBe(false)
+    })
+
+    test("is not confident for code evaluated at runtime", () => {
+      expect(analyzeShellCommand("eval cat secrets.json").confident).toBe(false)
+      expect(analyzeShellCommand("python3 -c 'print(open(\".env\").read())'").confident).toBe(false)
+      expect(analyzeShellCommand("find . -name '*.key' -exec cat {} \;").confident).toBe(false)
+      expect(analyzeShellCommand("ls | xargs cat").confident).toBe(false)
+    })
+
+    test("is not confident for unknown working directory", () => {
+      expect(analyzeShellCommand("cd $DIR && cat server.key").confident).toBe(false)
+    })
+
+    test("is not confident for unbalanced quoting", () => {
+      expect(analyzeShellCommand("cat 'secrets.json").confident).toBe(false)
+      expect(analyzeShellCommand("echo $(cat x").confident).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,788 @@
+import {homedir} from "os"
+import {basename, isAbsolute, join} from "path"
+
+/**
+ * Word of a shell command after quote removal
+ */
+interface ShellWord {
+  /** Literal text with quotes and escapes removed */
+  text: string
+  /** Word contains expansions or globs whose runtime value is unknown */
+  dynamic: boolean
+  /** Length of the literal text before the first $-expansion or substitution, if the word has one */
+  expansion?: number
+}
+
+type ShellToken =
+  | {type: "word", word: ShellWord}
+  | {type: "operator", value: string}
+  | {type: "redirect", value: string}
+
+/**
+ * Redirection that names a file
+ */
+interface Redirect {
+  /** Redirection operator (">", ">>", "<"...) */
+  operator: string
+  target: ShellWord
+}
+
+/**
+ * Simple command between control operators (|, &&, ;, subshell parentheses...)
+ */
+interface SimpleCommand {
+  words: ShellWord[]
+  redirects: Redirect[]
+}
+
+/**
+ * Simple command or control operator, in command line order
+ */
+type CommandStep = {type: "command", command: SimpleCommand} | {type: "operator", value: string}
+
+/**
+ * How a command uses a path
+ */
+type Access = "read" | "write" | "both"
+
+/**
+ * Result of analyzing a shell command
+ * Paths are resolved against any preceding cd (relative to the starting directory)
+ */
+export interface ShellAnalysis {
+  /** Paths the command may read (arguments of unknown programs are assumed to be read) */
+  paths: string[]
+  /** Paths the command creates, modifies or removes */
+  writes: string[]
+  /** false if parts of the command could not be parsed or resolved statically */
+  confident: boolean
+}
+
+// Longest operators first so "&&" wins over "&", ">>" over ">"...
+const OPERATORS = ["&>>", "<<<", "<<-", "&&", "||", "|&", ";;", "&>", "<<", "<>", ">>", ">|", ">&", "<&", "|", "&", ";", "(", ")", "<", ">"]
+const REDIRECTS = new Set(["&>>", "<<<", "<<-", "&>", "<<", "<>", ">>", ">|", ">&", "<&", "<", ">"])
+
+/** Redirections that read their target */
+const INPUT_REDIRECTS = new Set(["<", "<&"])
+
+/** Words that start or continue compound commands rather than naming a program */
+const KEYWORDS = new Set(["!", "{", "}", "if", "then", "else", "elif", "fi", "do", "done", "while", "until", "time"])
+
+/** Commands that run another command given as their arguments */
+const WRAPPERS = new Set(["sudo", "env", "nohup", "exec", "command", "builtin", "nice", "timeout", "xargs", "stdbuf", "doas"])
+
+/** Wrapper options that consume the following word */
+const WRAPPER_VALUE_OPTIONS = new Set(["-u", "-g", "-C", "-n", "-I", "-P", "-L", "-d", "-s", "-E", "-k", "-o", "-i", "-e"])
+
+const SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh", "fish"])
+
+/** Interpreters whose inline code (-c/-e) can open any file */
+const INTERPRETERS = new Set(["python", "python3", "node", "ruby", "perl", "php", "deno", "bun", "lua"])
+
+/** Commands whose first operand is a pattern or script unless given through an option */
+const PATTERN_FIRST = new Set(["grep", "egrep", "fgrep", "rg", "ag", "ack", "sed", "awk", "gawk", "mawk", "jq", "yq"])
+
+/** Options of pattern-first commands that supply the pattern/script inline */
+const PATTERN_OPTIONS = new Set(["-e", "--regexp", "--expression"])
+
+/** Options of pattern-first commands that read the pattern/script from a file */
+const PATTERN_FILE_OPTIONS = new Set(["-f", "--file", "--from-file"])
+
+/** Utilities whose operands are all files or directories */
+const FILE_COMMANDS = new Set([
+  "cat", "tac", "nl", "head", "tail", "less", "more", "bat", "batcat", "view", "vi", "vim", "nvim", "nano", "emacs",
+  "strings", "xxd", "hexdump", "od", "base64", "base32", "sort", "uniq", "wc", "cut", "paste", "column", "fold", "fmt",
+  "diff", "cmp", "comm", "md5sum", "sha1sum", "sha256sum", "sha512sum", "cksum", "file", "stat", "readlink", "realpath",
+  "source", ".", "cp", "mv", "rm", "rmdir", "mkdir", "ln", "touch", "chmod", "chown", "chgrp", "truncate", "shred", "tee", "install",
+  "ls", "tree", "du", "tar", "zip", "unzip", "gzip", "gunzip", "zcat", "bzip2", "xz", "rsync", "scp", "open", "xdg-open",
+  "iconv", "split", "csplit", "shuf", "look", "pr", "expand", "unexpand", "rev", "tr", "openssl", "ssh-keygen", "gpg"
+])
+
+/** Utilities that create, modify or remove every operand (mv removes its sources) */
+const WRITE_COMMANDS = new Set(["rm", "rmdir", "mkdir", "touch", "truncate", "shred", "chmod", "chown", "chgrp", "tee", "mv"])
+
+/** Utilities that read their operands and write the last one */
+const COPY_COMMANDS = new Set(["cp", "install", "ln", "rsync", "scp"])
+
+/** Commands that change the working directory of the rest of the command line */
+const DIRECTORY_COMMANDS = new Set(["cd", "pushd", "popd"])
+
+/** Operators that run the command before or after them in a subshell, or only conditionally */
+const BRANCH_OPERATORS = new Set(["|", "|&", "||", "&"])
+
+/**
+ * Find the closing delimiter of a nested construct, skipping quoted text and escapes
+ *
+ * @param input - Full command text
+ * @param start - Index just after the opening delimiter
+ * @param open - Opening character that increases nesting (e.g. "(")
+ * @param close - Closing character (e.g. ")")
+ * @returns Index of the matching closing character, or -1 if unbalanced
+ */
+function findClosing(input: string, start: number, open: string, close: string): number {
+  let depth = 1
+
+  for (let i = start; i < input.length; i++) {
+    const char = input[i]
+    if (char === "\\") {
+      i++
+    } else if (char === "'") {
+      const end = input.indexOf("'", i + 1)
+      if (end < 0) return -1
+      i = end
+    } else if (char === '"') {
+      for (i++; i < input.length && input[i] !== '"'; i++) {
+        if (input[i] === "\\") i++
+      }
+    } else if (char === open) {
+      depth++
+    } else if (char === close && --depth === 0) {
+      return i
+    }
+  }
+
+  return -1
+}
+
+/**
+ * Split a command line into words, control operators and redirections
+ *
+ * Handles single/double quotes, backslash escapes, comments,
+ * $VAR/${...}/$((...)) expansions and globs (marked dynamic), and collects
+ * the bodies of $(...), `...` and <(...) so they can be analyzed as commands too.
+ *
+ * @param input - Command text
+ * @returns Tokens, nested command texts and whether tokenizing was unambiguous
+ */
+function tokenize(input: string): {tokens: ShellToken[], nested: string[], confident: boolean} {
+  const tokens: ShellToken[] = []
+  const nested: string[] = []
+  let confident = true
+
+  let text = ""
+  let dynamic = false
+  let expansion: number | undefined
+  let quoted = false
+  let inWord = false
+
+  const endWord = () => {
+    if (inWord) tokens.push({type: "word", word: {text, dynamic, ...(expansion !== undefined && {expansion})}})
+    text = ""
+    dynamic = false
+    expansion = undefined
+    quoted = false
+    inWord = false
+  }
+
+  // Reads a $-expansion starting at index i, returns index after it
+  const readDollar = (i: number): number => {
+    const next = input[i + 1]
+    inWord = true
+
+    if (next === "(") {
+      const arithmetic = input[i + 2] === "("
+      const end = findClosing(input, i + 2, "(", ")")
+      if (end < 0) {
+        confident = false
+        return input.length
+      }
+      if (!arithmetic) nested.push(input.slice(i + 2, end))
+      dynamic = true
+      expansion ??= text.length
+      return arithmetic && input[end + 1] === ")" ? end + 2 : end + 1
+    }
+
+    if (next === "{") {
+      const end = findClosing(input, i + 2, "{", "}")
+      if (end < 0) {
+        confident = false
+        return input.length
+      }
+      dynamic = true
+      expansion ??= text.length
+      return end + 1
+    }
+
+    const name = /^([A-Za-z_][A-Za-z0-9_]*|[0-9@*#?$!-])/.exec(input.slice(i + 1))
+    if (name) {
+      dynamic = true
+      expansion ??= text.length
+      return i + 1 + name[0].length
+    }
+
+    // Lone "$" is literal
+    text += "$"
+    return i + 1
+  }
+
+  // Reads a `...` substitution starting at index i, returns index after it
+  const readBacktick = (i: number): number => {
+    let end = i + 1
+    while (end < input.length && input[end] !== "`") end += input[end] === "\\" ? 2 : 1
+    if (end >= input.length) {
+      confident = false
+      return input.length
+    }
+    nested.push(input.slice(i + 1, end))
+    dynamic = true
+    expansion ??= text.length
+    inWord = true
+    return end + 1
+  }
+
+  let i = 0
+  while (i < input.length) {
+    const char = input.charAt(i)
+
+    if (char === "\n") {
+      endWord()
+      tokens.push({type: "operator", value: ";"})
+      i++
+      continue
+    }
+
+    if (char === " " || char === "\t" || char === "\r") {
+      endWord()
+      i++
+      continue
+    }
+
+    if (char === "#" && !inWord) {
+      const end = input.indexOf("\n", i)
+      i = end < 0 ? input.length : end
+      continue
+    }
+
+    if (char === "\\") {
+      if (input[i + 1] !== "\n") {
+        text += input[i + 1] ?? ""
+        quoted = true
+        inWord = true
+      }
+      i += 2
+      continue
+    }
+
+    if (char === "'") {
+      const end = input.indexOf("'", i + 1)
+      if (end < 0) {
+        confident = false
+        text += input.slice(i + 1)
+        inWord = true
+        break
+      }
+      text += input.slice(i + 1, end)
+      quoted = true
+      inWord = true
+      i = end + 1
+      continue
+    }
+
+    if (char === '"') {
+      quoted = true
+      inWord = true
+      i++
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === "\\" && "$`\"\\\n".includes(input[i + 1] ?? "")) {
+          if (input[i + 1] !== "\n") text += input[i + 1]
+          i += 2
+        } else if (input[i] === "$") {
+          i = readDollar(i)
+        } else if (input[i] === "`") {
+          i = readBacktick(i)
+        } else {
+          text += input[i++]
+        }
+      }
+      if (i >= input.length) confident = false
+      i++
+      continue
+    }
+
+    if (char === "$") {
+      if (input[i + 1] === "'") {
+        // ANSI-C quoting: escapes are not interpreted, so treat the value as unknown if it has any
+        const end = input.indexOf("'", i + 2)
+        if (end < 0) {
+          confident = false
+          break
+        }
+        const value = input.slice(i + 2, end)
+        text += value
+        dynamic ||= value.includes("\\")
+        quoted = true
+        inWord = true
+        i = end + 1
+        continue
+      }
+      i = readDollar(i)
+      continue
+    }
+
+    if (char === "`") {
+      i = readBacktick(i)
+      continue
+    }
+
+    // Process substitution <(...) / >(...)
+    if ((char === "<" || char === ">") && input[i + 1] === "(") {
+      const end = findClosing(input, i + 2, "(", ")")
+      if (end < 0) {
+        confident = false
+        break
+      }
+      nested.push(input.slice(i + 2, end))
+      dynamic = true
+      expansion ??= text.length
+      inWord = true
+      i = end + 1
+      continue
+    }
+
+    const operator = OPERATORS.find(candidate => input.startsWith(candidate, i))
+    if (operator) {
+      // "2>" / "10<": leading digits name a file descriptor, not a word
+      if (REDIRECTS.has(operator) && inWord && !quoted && !dynamic && /^\d+$/.test(text)) {
+        text = ""
+        inWord = false
+      }
+      endWord()
+      tokens.push({type: REDIRECTS.has(operator) ? "redirect" : "operator", value: operator})
+      i += operator.length
+      continue
+    }
+
+    // Globs and brace lists expand at runtime
+    if ("*?[".includes(char) || (char === "{" && inWord)) dynamic = true
+
+    text += char
+    inWord = true
+    i++
+  }
+  endWord()
+
+  return {tokens, nested, confident}
+}
+
+/**
+ * Tokenize a command with heredoc bodies removed
+ * Heredoc bodies are input text, not commands, so they must not be parsed
+ *
+ * @param input - Command text
+ * @returns Tokens, nested command texts and whether tokenizing was unambiguous
+ */
+function tokenizeCommand(input: string): {tokens: ShellToken[], nested: string[], confident: boolean} {
+  if (!/(?<!<)<<(?!<)/.test(input)) return tokenize(input)
+
+  // Remove heredoc bodies line by line, then tokenize what is left
+  const lines = input.split("\n")
+  const kept: string[] = []
+  let pending: {delimiter: string, stripTabs: boolean}[] = []
+  for (const line of lines) {
+    const current = pending[0]
+    if (current) {
+      if ((current.stripTabs ? line.replace(/^\t+/, "") : line) === current.delimiter) pending.shift()
+      continue
+    }
+
+    kept.push(line)
+    pending = [...line.matchAll(/(?<!<)<<(?!<)(-?)\s*(['"]?)([^\s'"<>|;&()]+)\2/g)]
+      .map(([, strip, , delimiter]) => ({delimiter: delimiter ?? "", stripTabs: strip === "-"}))
+  }
+
+  return tokenize(kept.join("\n"))
+}
+
+/**
+ * Group tokens into simple commands, keeping the control operators between them
+ *
+ * @param tokens - Tokens from tokenize
+ * @returns Commands and operators in order, and whether every redirection had a target
+ */
+function groupCommands(tokens: ShellToken[]): {steps: CommandStep[], confident: boolean} {
+  const steps: CommandStep[] = []
+  let current: SimpleCommand = {words: [], redirects: []}
+  let confident = true
+
+  for (let t = 0; t < tokens.length; t++) {
+    const token = tokens[t]
+    if (!token) continue
+
+    if (token.type === "operator") {
+      if (current.words.length || current.redirects.length) steps.push({type: "command", command: current})
+      steps.push({type: "operator", value: token.value})
+      current = {words: [], redirects: []}
+      continue
+    }
+
+    if (token.type === "redirect") {
+      const target = tokens[t + 1]
+      if (target?.type !== "word") {
+        confident = false
+        continue
+      }
+      t++
+
+      // Heredoc delimiters and here-strings are text, not files
+      if (token.value === "<<" || token.value === "<<-" || token.value === "<<<") continue
+
+      // ">&2" / "<&0" / ">&-" duplicate or close descriptors
+      if ((token.value === ">&" || token.value === "<&") && /^(\d+|-)$/.test(target.word.text)) continue
+
+      current.redirects.push({operator: token.value, target: target.word})
+      continue
+    }
+
+    current.words.push(token.word)
+  }
+
+  if (current.words.length || current.redirects.length) steps.push({type: "command", command: current})
+
+  return {steps, confident}
+}
+
+/**
+ * Take the end of a word as a word of its own (an option value, a revision path...)
+ *
+ * @param word - Whole word
+ * @param text - Trailing part of word.text
+ * @returns Word for the trailing part, with the position of its first expansion moved along
+ */
+function wordSuffix(word: ShellWord, text: string): ShellWord {
+  if (word.expansion === undefined) return {text, dynamic: word.dynamic}
+  return {text, dynamic: word.dynamic, expansion: Math.max(0, word.expansion - (word.text.length - text.length))}
+}
+
+/**
+ * Check if a word looks like a path rather than a flag, pattern or plain text
+ *
+ * @param text - Word text
+ * @returns true for words with a separator, leading "." or "~", or a file extension
+ */
+function isPathLike(text: string): boolean {
+  if (text === "" || text.includes("://")) return false
+  return text.includes("/") || text.startsWith(".") || text.startsWith("~") || /\.[A-Za-z0-9_-]+$/.test(text)
+}
+
+/**
+ * Decide how a file utility uses one of its operands
+ *
+ * @param name - Command name
+ * @param position - Index of the operand among the file operands
+ * @param count - Number of file operands
+ * @param inPlace - Command edits its operands in place (sed -i)
+ * @returns Access to the operand
+ */
+function operandAccess(name: string, position: number, count: number, inPlace: boolean): Access {
+  if (WRITE_COMMANDS.has(name)) return "write"
+  if (COPY_COMMANDS.has(name) && count > 1 && position === count - 1) return "write"
+  return inPlace ? "both" : "read"
+}
+
+/**
+ * Analyze a shell command for file and directory arguments
+ *
+ * Tokenizes the command (quotes, pipes, &&/||/;, redirections, subshells,
+ * command/process substitutions) and collects every argument that may name a
+ * path: operands of common file utilities, redirection targets,
+ * --option=value values and path-like words of other programs. cd, pushd and
+ * popd are tracked so later relative paths resolve against the new directory;
+ * a change inside "( ... )" ends with the subshell. When the directory is
+ * ambiguous (cd in a pipeline or || branch) or unknown (cd -, cd $DIR),
+ * relative paths are resolved against every directory the command may be in,
+ * including the starting directory.
+ * Output redirections and operands modified by utilities such as rm, mv,
+ * tee, cp (destination), dd of= or sed -i are reported as writes.
+ *
+ * The result is not confident when something can only be known at runtime:
+ * variables, globs, eval, inline interpreter code, find -exec, xargs,
+ * unresolvable cd targets or unbalanced quoting.
+ *
+ * @example
+ * analyzeShellCommand("cd config && cat production/app.server.properties | head")
+ * // {paths: ["config/production/app.server.properties"], writes: [], confident: true}
+ *
+ * @param command - Shell command text
+ * @returns Read and written paths and parse confidence
+ */
+export function analyzeShellCommand(command: string): ShellAnalysis {
+  const paths: string[] = []
+  const writes: string[] = []
+  let confident = true
+
+  // Directories the next command may run in, relative to the starting directory ("" is the start)
+  let directories = [""]
+  let directoriesKnown = true
+  // Directories saved by pushd, restored by popd
+  let directoryStack: string[][] = []
+  // State saved at each "(" and restored at its ")"
+  const subshells: {directories: string[], directoriesKnown: boolean, directoryStack: string[][]}[] = []
+  // Every directory the command may visit, the candidates for cd - and similar
+  const visited = new Set([""])
+  // Control operators around the command being analyzed
+  let previousOperator: string | undefined
+  let nextOperator: string | undefined
+
+  const record = (path: string, access: Access) => {
+    if (access !== "write") paths.push(path)
+    if (access !== "read") writes.push(path)
+  }
+
+  const addPath = (word: ShellWord, access: Access = "read") => {
+    if (word.dynamic) confident = false
+
+    // Only the directories before an expansion are known: "secrets/" of "secrets/$NAME", nothing of "$PWD/a"
+    const prefix = word.text.slice(0, word.expansion)
+    const text = word.expansion === undefined ? word.text : prefix.slice(0, prefix.lastIndexOf("/") + 1)
+    if (text === "" || text === "-") return
+
+    if (text === "~" || text.startsWith("~/")) {
+      record(join(homedir(), text.slice(1)), access)
+      return
+    }
+
+    if (text.startsWith("~")) {
+      // ~user/... depends on other accounts' home directories
+      confident = false
+      return
+    }
+
+    if (isAbsolute(text)) {
+      record(text, access)
+      return
+    }
+
+    if (!directoriesKnown) confident = false
+    for (const directory of directories) record(directory ? join(directory, text) : text, access)
+  }
+
+  const changeDirectory = (name: string, args: ShellWord[]) => {
+    const operands = args.filter(word => !/^[-+]./.test(word.text))
+    const target = operands[0]
+    let next: string[] | null
+
+    if (name === "popd") {
+      next = operands.length === 0 && args.length === 0 ? directoryStack.pop() ?? null : null
+    } else if (!target || target.dynamic || target.text === "-" || target.text.startsWith("~") || operands.length > 1) {
+      next = null
+    } else {
+      next = directories.map(directory => isAbsolute(target.text) ? target.text : join(directory, target.text))
+    }
+    if (name === "pushd") directoryStack.push(directories)
+
+    if (next === null) {
+      // cd -, cd $DIR...: the directory may be any the command has been in, the starting one included
+      directoriesKnown = false
+      directories = [...visited]
+      return
+    }
+
+    for (const directory of next) visited.add(directory)
+    const branch = BRANCH_OPERATORS.has(previousOperator ?? "") || BRANCH_OPERATORS.has(nextOperator ?? "")
+    // In a pipeline or || branch the change may not reach the next command, so both directories stay possible
+    directories = branch ? [...new Set([...directories, ...next, ""])] : next
+  }
+
+  const addOptionValue = (word: ShellWord) => {
+    const separator = word.text.indexOf("=")
+    if (word.text.startsWith("--") && separator > 0) {
+      const value = wordSuffix(word, word.text.slice(separator + 1))
+      if (isPathLike(value.text)) addPath(value)
+    }
+  }
+
+  const analyzeCommand = ({words, redirects}: SimpleCommand) => {
+    for (const {operator, target} of redirects) {
+      addPath(target, operator === "<>" ? "both" : INPUT_REDIRECTS.has(operator) ? "read" : "write")
+    }
+
+    let index = 0
+
+    // Leading keywords and variable assignments
+    for (let word = words[index]; word; word = words[index]) {
+      if (KEYWORDS.has(word.text)) {
+        index++
+      } else if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(word.text)) {
+        const value = wordSuffix(word, word.text.slice(word.text.indexOf("=") + 1))
+        if (isPathLike(value.text)) addPath(value)
+        index++
+      } else {
+        break
+      }
+    }
+
+    // Wrappers such as "sudo" or "env X=1" run the command that follows
+    for (let word = words[index]; word && WRAPPERS.has(basename(word.text)); word = words[index]) {
+      const wrapper = basename(word.text)
+      if (wrapper === "xargs") confident = false // Arguments arrive on stdin
+      index++
+
+      for (let option = words[index]; option; option = words[index]) {
+        const text = option.text
+        if (text.startsWith("-")) {
+          index += WRAPPER_VALUE_OPTIONS.has(text) ? 2 : 1
+        } else if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(text)) {
+          index++
+        } else if (wrapper === "timeout" && /^\d/.test(text)) {
+          index++
+        } else {
+          break
+        }
+      }
+    }
+
+    const nameWord = words[index]
+    if (!nameWord) return
+
+    const name = basename(nameWord.text)
+    const args = words.slice(index + 1)
+    if (nameWord.dynamic) confident = false
+
+    if (name === "for") {
+      // "for x in a b c" - the list items may be paths
+      for (const word of args.slice(2)) if (isPathLike(word.text)) addPath(word)
+      return
+    }
+
+    if (DIRECTORY_COMMANDS.has(name)) {
+      changeDirectory(name, args)
+      return
+    }
+
+    if (name === "eval") {
+      confident = false
+      analyzeNested(args.map(word => word.text).join(" "))
+      return
+    }
+
+    if (SHELLS.has(name)) {
+      const inline = args.findIndex(word => word.text === "-c")
+      if (inline >= 0) {
+        const script = args[inline + 1]
+        if (!script || script.dynamic) confident = false
+        if (script) analyzeNested(script.text)
+        return
+      }
+      const scriptFile = args.find(word => !word.text.startsWith("-"))
+      if (scriptFile) addPath(scriptFile)
+      return
+    }
+
+    if (INTERPRETERS.has(name) && args.some(word => /^-(c|e|p|-eval|-print)$/.test(word.text))) {
+      confident = false
+    }
+
+    if (name === "find") {
+      for (const word of args) {
+        if (/^[-(!]/.test(word.text)) break
+        addPath(word)
+      }
+      if (args.some(word => /^-(exec|execdir|ok|okdir)$/.test(word.text))) confident = false
+      return
+    }
+
+    if (name === "dd") {
+      for (const word of args) {
+        const operand = /^(if|of)=(.+)$/s.exec(word.text)
+        if (operand?.[2]) addPath(wordSuffix(word, operand[2]), operand[1] === "of" ? "write" : "read")
+      }
+      return
+    }
+
+    if (name === "git") {
+      // "git show HEAD:path" reads a path from the object database
+      for (const word of args) {
+        const revisionPath = /^[^-:][^:]*:(.+)$/.exec(word.text)
+        if (revisionPath?.[1] && !word.text.includes("://")) addPath(wordSuffix(word, revisionPath[1]))
+        else if (isPathLike(word.text) && !word.text.startsWith("-")) addPath(word)
+        else addOptionValue(word)
+      }
+      return
+    }
+
+    const patternFirst = PATTERN_FIRST.has(name)
+    const allOperands = FILE_COMMANDS.has(name) || patternFirst
+    let patternSupplied = false
+    let inPlace = false
+    let operandsOnly = false
+    const operands: ShellWord[] = []
+
+    for (let a = 0; a < args.length; a++) {
+      const word = args[a]
+      if (!word) continue
+      const text = word.text
+
+      if (operandsOnly || !text.startsWith("-") || text === "-") {
+        operands.push(word)
+        continue
+      }
+
+      if (text === "--") {
+        operandsOnly = true
+        continue
+      }
+
+      if (name === "sed" && (/^-[a-zA-Z]*i/.test(text) || text.startsWith("--in-place"))) {
+        inPlace = true
+        continue
+      }
+
+      if (patternFirst) {
+        const [option = text, value] = text.split(/=(.*)/s)
+        if (PATTERN_OPTIONS.has(option) || /^-e./.test(text)) {
+          patternSupplied = true
+          if (value === undefined && !/^-e./.test(text)) a++
+          continue
+        }
+        if (PATTERN_FILE_OPTIONS.has(option)) {
+          patternSupplied = true
+          const file = value === undefined ? args[++a] : wordSuffix(word, value)
+          if (file) addPath(file)
+          continue
+        }
+      }
+
+      addOptionValue(word)
+    }
+
+    const files = patternFirst && !patternSupplied ? operands.slice(1) : operands
+    files.forEach((word, position) => {
+      if (allOperands || isPathLike(word.text)) addPath(word, operandAccess(name, position, files.length, inPlace))
+    })
+  }
+
+  const analyzeNested = (text: string, within: string[] = directories) => {
+    const nested = analyzeShellCommand(text)
+    if (!nested.confident) confident = false
+    for (const directory of within) {
+      for (const path of nested.paths) paths.push(isAbsolute(path) || !directory ? path : join(directory, path))
+      for (const path of nested.writes) writes.push(isAbsolute(path) || !directory ? path : join(directory, path))
+    }
+  }
+
+  const tokenized = tokenizeCommand(command)
+  if (!tokenized.confident) confident = false
+
+  const grouped = groupCommands(tokenized.tokens)
+  if (!grouped.confident) confident = false
+
+  grouped.steps.forEach((step, index) => {
+    if (step.type === "command") {
+      const previous = grouped.steps[index - 1]
+      const next = grouped.steps[index + 1]
+      previousOperator = previous?.type === "operator" ? previous.value : undefined
+      nextOperator = next?.type === "operator" ? next.value : undefined
+      analyzeCommand(step.command)
+    } else if (step.value === "(") {
+      subshells.push({directories, directoriesKnown, directoryStack: [...directoryStack]})
+    } else if (step.value === ")") {
+      const outer = subshells.pop()
+      if (outer) ({directories, directoriesKnown, directoryStack} = outer)
+    }
+  })
+
+  // Substitutions are taken out of their command, so they may run in any directory the command visits
+  for (const text of tokenized.nested) analyzeNested(text, [...visited])
+
+  return {paths: [...new Set(paths)], writes: [...new Set(writes)], confident}
+}
@@ -0,0 +1,10 @@
+import {join} from "path"
+
+/**
+ * Preloaded before the tests: point the user's config and data directories at
+ * empty ones, so the developer's global ignore file, grants and approvals
+ * cannot change the results
+ */
+const home = "/tmp/test-xdg-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+process.env.XDG_CONFIG_HOME = join(home, "config")
+process.env.XDG_DATA_HOME = join(home, "data")
@@ -0,0 +1,61 @@
+import { test, expect, describe } from "bun:test"
+import { extractToolPaths, findToolConfigs, outputFormat, parseArgPath } from "./tools"
+
+describe("parseArgPath", () => {
+  test("reads argument names and JSON paths", () => {
+    expect(parseArgPath("outputFile")).toEqual([{ key: "outputFile" }])
+    expect(parseArgPath("$.files[*].path")).toEqual([{ key: "files" }, "*", { key: "path" }])
+    expect(parseArgPath("$.edits[0][\"file path\"]")).toEqual([{ key: "edits" }, { index: 0 }, { key: "file path" }])
+    expect(parseArgPath("$.options.*")).toEqual([{ key: "options" }, "*"])
+  })
+
+  test("rejects invalid JSON paths", () => {
+    expect(parseArgPath("")).toBeNull()
+    expect(parseArgPath("$")).toBeNull()
+    expect(parseArgPath("$.files[")).toBeNull()
+    expect(parseArgPath("$..path")).toBeNull()
+  })
+})
+
+describe("extractToolPaths", () => {
+  test("collects strings and string arrays with their type and operation", () => {
+    const configs = [{
+      paths: [
+        { arg: "source" },
+        { arg: "destination", directory: true, operation: "write" as const },
+        { arg: "$.extra[*].file" }
+      ]
+    }]
+    const args = { source: ["a.txt", "b.txt"], destination: "out", extra: [{ file: "c.txt" }, { other: 1 }], flag: true }
+
+    expect(extractToolPaths(configs, args)).toEqual([
+      { path: "a.txt", isDirectory: false, operation: "read" },
+      { path: "b.txt", isDirectory: false, operation: "read" },
+      { path: "out", isDirectory: true, operation: "write" },
+      { path: "c.txt", isDirectory: false, operation: "read" }
+    ])
+  })
+
+  test("skips missing arguments and non-string values", () => {
+    expect(extractToolPaths([{ paths: [{ arg: "outputFile" }, { arg: "$.a.b" }] }], { a: 5 })).toEqual([])
+  })
+})
+
+describe("findToolConfigs", () => {
+  test("matches exact names and * patterns", () => {
+    const tools = { db_dump: { output: "glob" as const }, "fs_*": { paths: [] }, "*_search": { output: "grep" as const } }
+
+    expect(findToolConfigs(tools, "db_dump")).toEqual([{ output: "glob" }])
+    expect(findToolConfigs(tools, "fs_search")).toEqual([{ paths: [] }, { output: "grep" }])
+    expect(findToolConfigs(tools, "db_dump_all")).toEqual([])
+    expect(findToolConfigs(undefined, "db_dump")).toEqual([])
+  })
+})
+
+describe("outputFormat", () => {
+  test("uses the native format or the first configured one", () => {
+    expect(outputFormat("grep", [])).toBe("grep")
+    expect(outputFormat("fs_search", [{ paths: [] }, { output: "list" }])).toBe("list")
+    expect(outputFormat("db_dump", [{ paths: [] }])).toBeUndefined()
+  })
+})
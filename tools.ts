@@ -0,0 +1,157 @@
+import type {Operation} from "./engine"
+
+/**
+ * Argument of a custom or MCP tool that holds a path
+ */
+export interface ToolPathConfig {
+  /** Argument name, or JSON path into the arguments ("$.files[*].path") */
+  arg: string
+  /** The path names a directory (default: file) */
+  directory?: boolean
+  /** Access the tool needs to the path (default: read) */
+  operation?: Operation
+}
+
+/** Output formats the plugin can filter, named after the native tools that print them */
+export type OutputFormat = "glob" | "grep" | "list"
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["glob", "grep", "list"]
+
+/** Native OpenCode tools the plugin checks, all enforced unless the configuration picks some */
+export const NATIVE_TOOLS = ["read", "write", "edit", "multiedit", "patch", "apply_patch", "glob", "grep", "list", "bash"]
+
+/**
+ * How the plugin protects a custom or MCP tool
+ */
+export interface ToolConfig {
+  /** Arguments checked before the tool runs */
+  paths?: ToolPathConfig[]
+  /** Filter the tool's output like the output of this native tool */
+  output?: OutputFormat
+}
+
+/**
+ * Path found in the arguments of a configured tool
+ */
+export interface ToolPath {
+  path: string
+  isDirectory: boolean
+  operation: Operation
+}
+
+/** Step of an argument path: object key, array index, or "*" for every element */
+export type ArgStep = {key: string} | {index: number} | "*"
+
+/** One step of a JSON path: .name, .*, [0], [*] or ["name"] */
+const JSON_PATH_STEP = /^(?:\.([A-Za-z_$][\w$-]*)|\.\*|\[(\d+)\]|\[\*\]|\["((?:[^"\\]|\\.)*)"\])/
+
+/**
+ * Parse the arg of a tool path configuration
+ *
+ * @example
+ * parseArgPath("outputFile")         // [{key: "outputFile"}]
+ * parseArgPath("$.files[*].path")    // [{key: "files"}, "*", {key: "path"}]
+ *
+ * @param arg - Argument name, or JSON path starting with "$"
+ * @returns Steps from the arguments object to the value, or null if the JSON path is invalid
+ */
+export function parseArgPath(arg: string): ArgStep[] | null {
+  if (!arg.startsWith("$")) return arg === "" ? null : [{key: arg}]
+
+  const steps: ArgStep[] = []
+  let rest = arg.slice(1)
+  while (rest !== "") {
+    const step = JSON_PATH_STEP.exec(rest)
+    if (!step) return null
+
+    if (step[1] !== undefined) steps.push({key: step[1]})
+    else if (step[2] !== undefined) steps.push({index: Number(step[2])})
+    else if (step[3] !== undefined) steps.push({key: JSON.parse(`"${step[3]}"`)})
+    else steps.push("*")
+    rest = rest.slice(step[0].length)
+  }
+
+  return steps.length > 0 ? steps : null
+}
+
+/**
+ * Collect the values an argument path selects
+ * @param value - Tool arguments, or a value inside them
+ * @param steps - Remaining steps of the argument path
+ * @returns Selected values (none if a step does not exist)
+ */
+function selectValues(value: unknown, steps: ArgStep[]): unknown[] {
+  const [step, ...rest] = steps
+  if (step === undefined) return [value]
+  if (value === null || typeof value !== "object") return []
+
+  if (step === "*") {
+    return Object.values(value).flatMap(child => selectValues(child, rest))
+  }
+
+  const child = "key" in step
+    ? Object.hasOwn(value, step.key) ? (value as Record<string, unknown>)[step.key] : undefined
+    : Array.isArray(value) ? value[step.index] : undefined
+  return child === undefined ? [] : selectValues(child, rest)
+}
+
+/**
+ * Check if a tool name matches a configured name
+ * @param pattern - Configured name, "*" matches any characters (e.g. "filesystem_*")
+ * @param tool - Tool name
+ * @returns true if the pattern matches the whole name
+ */
+function matchesToolName(pattern: string, tool: string): boolean {
+  const source = pattern.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")
+  return new RegExp(`^${source}$`).test(tool)
+}
+
+/**
+ * Find the configurations that apply to a tool
+ * @param tools - Configured tools by name or name pattern
+ * @param tool - Tool name
+ * @returns Every matching configuration, in configuration order
+ */
+export function findToolConfigs(tools: Record<string, ToolConfig> | undefined, tool: string): ToolConfig[] {
+  return Object.entries(tools ?? {})
+    .filter(([pattern]) => matchesToolName(pattern, tool))
+    .map(([, config]) => config)
+}
+
+/**
+ * Extract the paths a configured tool call touches
+ *
+ * Every configured argument is looked up; string values are paths, and
+ * arrays of strings are several paths. Missing arguments and other values are
+ * skipped, since optional arguments need not be given.
+ *
+ * @example
+ * extractToolPaths([{paths: [{arg: "outputFile", operation: "write"}]}], {query: "...", outputFile: "dump.sql"})
+ * // [{path: "dump.sql", isDirectory: false, operation: "write"}]
+ *
+ * @param configs - Configurations that apply to the tool
+ * @param args - Tool arguments object
+ * @returns Every path found, with its type and operation
+ */
+export function extractToolPaths(configs: ToolConfig[], args: Record<string, unknown>): ToolPath[] {
+  return configs.flatMap(config => config.paths ?? []).flatMap(({arg, directory = false, operation = "read"}) => {
+    const steps = parseArgPath(arg)
+    if (!steps) return []
+
+    return selectValues(args, steps)
+      .flatMap(value => Array.isArray(value) ? value : [value])
+      .filter((value): value is string => typeof value === "string" && value !== "")
+      .map(path => ({path, isDirectory: directory, operation}))
+  })
+}
+
+/**
+ * Find the output format of a tool
+ * @param tool - Tool name
+ * @param configs - Configurations that apply to the tool
+ * @returns Native tool format, the first configured format, or undefined if output is not filtered
+ */
+export function outputFormat(tool: string, configs: ToolConfig[]): OutputFormat | undefined {
+  if ((OUTPUT_FORMATS as string[]).includes(tool)) return tool as OutputFormat
+  return configs.find(config => config.output)?.output
+}
@@ -0,0 +1,29 @@
+import { test, expect, describe } from "bun:test"
+import { walkTree } from "./tree"
+import { mkdir, symlink } from "fs/promises"
+
+async function collect(directory: string, projectRoot: string) {
+  const paths: string[] = []
+  for await (const path of walkTree(directory, projectRoot)) paths.push(path)
+  return paths
+}
+
+describe("walkTree", () => {
+  test("lists directories before their contents in sorted order", async () => {
+    const root = "/tmp/test-tree-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+    await Bun.write(root + "/b.txt", "")
+    await Bun.write(root + "/a/z.txt", "")
+    await Bun.write(root + "/a/c/d.txt", "")
+    await Bun.write(root + "/.git/HEAD", "")
+    await symlink(root, root + "/loop")
+
+    expect(await collect(root, root)).toEqual(["a/", "a/c/", "a/c/d.txt", "a/z.txt", "b.txt", "loop"])
+    expect(await collect(root + "/a/c", root)).toEqual(["a/c/d.txt"])
+  })
+
+  test("fails for a directory that cannot be read", async () => {
+    const root = "/tmp/test-tree-missing-" + Date.now() + "-" + Math.random().toString(36).slice(2)
+    await mkdir(root)
+    expect(collect(root + "/missing", root)).rejects.toThrow(/ENOENT/)
+  })
+})
@@ -0,0 +1,31 @@
+import {readdir} from "fs/promises"
+import {join, relative} from "path"
+
+/** Directories never walked: git internals are not project files */
+const SKIPPED_DIRECTORIES = new Set([".git"])
+
+/**
+ * Walk a directory tree depth-first in sorted order
+ * Directories end with "/" and come before their contents; symlinks are listed
+ * as files and not followed, so link loops cannot hang the walk
+ *
+ * @param directory - Absolute directory to walk
+ * @param projectRoot - Absolute project root
+ * @returns Files and directories relative to the project root
+ * @throws If a directory of the tree cannot be read
+ */
+export async function* walkTree(directory: string, projectRoot: string): AsyncGenerator<string> {
+  const entries = await readdir(directory, {withFileTypes: true})
+  entries.sort((a, b) => a.name.localeCompare(b.name))
+
+  for (const entry of entries) {
+    const absolutePath = join(directory, entry.name)
+    if (entry.isDirectory()) {
+      if (SKIPPED_DIRECTORIES.has(entry.name)) continue
+      yield relative(projectRoot, absolutePath) + "/"
+      yield* walkTree(absolutePath, projectRoot)
+    } else {
+      yield relative(projectRoot, absolutePath)
+    }
+  }
+}